@@ -1,10 +1,16 @@
 export const AppErrorKinds = Object.freeze({
     invalidModelSchema: 'invalidModelSchema',
+    invalidModelSemantics: 'invalidModelSemantics',
     templateValidationError: 'templateValidationError',
+    generationAborted: 'generationAborted',
+    invalidOutputFile: 'invalidOutputFile',
 });
 
 export const AppErrorCodes = Object.freeze({
-    CsharpNamespaceMissing: 'csharp.namespace.missing'
+    CsharpNamespaceMissing: 'csharp.namespace.missing',
+    OutputFileAbsolutePath: 'output.file.absolutePath',
+    OutputFileOutsideFolder: 'output.file.outsideFolder',
+    OutputFileDuplicate: 'output.file.duplicate'
 });
 
 export class AppError extends Error {
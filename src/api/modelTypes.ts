@@ -5,7 +5,7 @@ import type {
     LhqModelLineEndings,
     LhqModelDataNode
 } from './schemas';
-import type { TemplateMetadataGroup, TemplateMetadataGroupSettings, TemplateMetadataSettingValidationResult } from './templates';
+import type { TemplateMetadataDefinition, TemplateMetadataGroup, TemplateMetadataGroupSettings, TemplateMetadataSettingValidationResult } from './templates';
 
 export type TreeElementType = 'model' | 'category' | 'resource';
 
@@ -299,8 +299,10 @@ export type ICodeGeneratorElement = {
      */
     readonly templateId: string;
 
-    // TODO: Must add 'version' for code generator templates in v3 of LHQ model file format!!
-    // for now this value will be artificially set to 1 (not stored in lhq model file)
+    /**
+     * Version of template settings (see `version` of template in templates metadata),
+     * settings with older version are migrated by `ModelUtils.upgradeModel`.
+     */
     readonly version: LhqCodeGenVersion;
 
     /**
@@ -418,14 +420,28 @@ export interface IRootModelElement extends ICategoryLikeTreeElement {
 
     /**
      * Code generator associated with the root model element (optional).
+     *
+     * When model declares multiple code generators, this is the first one (see `codeGenerators`).
      */
     get codeGenerator(): ICodeGeneratorElement | undefined;
 
     /**
      * Sets the code generator for the root model element.
+     *
+     * When model declares multiple code generators, only the first one is replaced (see `codeGenerators`).
      */
     set codeGenerator(value: ICodeGeneratorElement);
 
+    /**
+     * All code generators associated with the root model element, each with its own template and settings.
+     */
+    get codeGenerators(): readonly ICodeGeneratorElement[];
+
+    /**
+     * Sets all code generators for the root model element (replaces existing ones).
+     */
+    set codeGenerators(value: ICodeGeneratorElement[]);
+
     /**
      * Adds a new language to the root model element.
      * @param language - The language to add.
@@ -773,7 +789,8 @@ export type ModelVersionsType = {
     model: LhqModelVersion;
 
     /**
-     * Version of the code generator.
+     * Initial version of the code generator template settings (used when version is not stored in model),
+     * current version of specific template is defined in templates metadata.
      */
     codeGenerator: LhqCodeGenVersion;
 };
@@ -791,6 +808,31 @@ export type CodeGeneratorValidateResult = {
     errorCode: string | undefined;
 };
 
+/**
+ * Additional (non settings) data used by settings rules, e.g. `differsFrom` rule with reference to `\@model.name`.
+ */
+export type CodeGeneratorSettingsContext = {
+    /**
+     * Name of the LHQ model.
+     */
+    modelName?: string;
+};
+
+/**
+ * State of single setting property evaluated from `visibleWhen` and `requiredWhen` conditions in template metadata.
+ */
+export type CodeGeneratorPropertyState = {
+    /**
+     * Indicates whether property applies to current settings (should be visible in UI and is validated).
+     */
+    visible: boolean;
+
+    /**
+     * Indicates whether property value is required for current settings.
+     */
+    required: boolean;
+};
+
 /**
  * Interface for converting between data nodes and code generator settings.
  */
@@ -843,9 +885,34 @@ export interface ICodeGeneratorSettingsConvertor {
      * Validates code generator settings for a specific code generator template.
      * @param templateId - Identifier of the code generator template.
      * @param settings - code generator settings to validate.
+     * @param context - Optional additional data used by settings rules (e.g. model name).
      * @returns An object containing details of the first validation error found, or undefined if all settings are valid.
+     * Use `validateAllSettings` to get all validation errors.
      */
-    validateSettings(templateId: string, settings: CodeGeneratorGroupSettings): CodeGeneratorValidateResult;
+    validateSettings(templateId: string, settings: CodeGeneratorGroupSettings, context?: CodeGeneratorSettingsContext): CodeGeneratorValidateResult;
+
+    /**
+     * Validates all settings (of all groups) defined by a specific code generator template and returns every validation error found.
+     * Properties missing in `settings` are validated with their default value (as defined in template metadata).
+     * @param templateId - Identifier of the code generator template.
+     * @param settings - code generator settings to validate.
+     * @param context - Optional additional data used by settings rules (e.g. model name).
+     * @returns List of all validation errors (each with `errorCode` from template metadata), or empty list if all settings are valid.
+     * @remarks Optional for compatibility with existing convertor implementations, when not implemented `validateSettings` is used instead.
+     */
+    validateAllSettings?(templateId: string, settings: CodeGeneratorGroupSettings, context?: CodeGeneratorSettingsContext): CodeGeneratorValidateResult[];
+
+    /**
+     * Evaluates `visibleWhen` and `requiredWhen` conditions (from template metadata) of a specific property against current settings,
+     * so UI can hide settings which do not apply.
+     * @param templateId - Identifier of the code generator template.
+     * @param settings - current code generator settings (missing properties are evaluated with their default value).
+     * @param group - Name of the settings group.
+     * @param property - Name of the property that belongs to group.
+     * @returns State of the property, or undefined if group or property does not exist in template.
+     * @remarks Optional for compatibility with existing convertor implementations, when not implemented property should be treated as visible.
+     */
+    getPropertyState?(templateId: string, settings: CodeGeneratorGroupSettings, group: string, property: string): CodeGeneratorPropertyState | undefined;
 
     /**
      * Validates a single setting value for a specific template and settings group.
@@ -854,7 +921,29 @@ export interface ICodeGeneratorSettingsConvertor {
      * @param property - Name of the property that belongs to group to validate.
      * @param value - Value to validate.
      * @param throwErr - If true all validation blocks throws error, otherwise only returns validation error or undefined (default/unspecified is true).
+     * @param settings - Optional other settings used to evaluate conditions of the property (when not specified, default values are used).
      * @returns An error message if the value is invalid, otherwise undefined.
      */
-    validateSetting(templateId: string, group: string, property: string, value: unknown, throwErr?: boolean): TemplateMetadataSettingValidationResult | undefined;
+    validateSetting(templateId: string, group: string, property: string, value: unknown, throwErr?: boolean,
+        settings?: CodeGeneratorGroupSettings): TemplateMetadataSettingValidationResult | undefined;
+
+    /**
+     * Gets definition of a specific code generator template from template manager used by this convertor.
+     * @param templateId - Identifier of the code generator template.
+     * @returns Template definition, or undefined if template does not exist.
+     * @remarks Optional for compatibility with existing convertor implementations, when not implemented template definitions
+     * are resolved from default template manager (`HbsTemplateManager.default`).
+     */
+    getTemplateDefinition?(templateId: string): TemplateMetadataDefinition | undefined;
+
+    /**
+     * Migrates settings node (as stored in LHQ model file) of specific template from older template version to current version.
+     * @param templateId - Identifier of the code generator template.
+     * @param node - Settings node to migrate (modified in place).
+     * @param version - Template version of settings stored in node.
+     * @returns Human readable list of applied changes.
+     * @remarks Optional for compatibility with existing convertor implementations, when not implemented settings are kept as is
+     * and only their version is upgraded.
+     */
+    migrateSettingsNode?(templateId: string, node: LhqModelDataNode, version: number): string[];
 }
\ No newline at end of file
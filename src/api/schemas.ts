@@ -58,7 +58,7 @@ export const LhqModelUidSchema = z.literal('6ce4d54c5dbd415c93019d315e278638');
 
 export const LhqModelVersionSchema = z.union([z.literal(1), z.literal(2), z.literal(3)]);
 
-export const LhqCodeGenVersionSchema = z.literal(1);
+export const LhqCodeGenVersionSchema = z.number().int().positive();
 
 export const LhqModelCategoriesCollectionSchema = z.record(LhqModelCategorySchema);
 
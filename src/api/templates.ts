@@ -4,15 +4,38 @@ export const templateMetadataSettingTypeSchema = z.union([
     z.literal('boolean'), z.literal('string'), z.literal('list'), z.literal('number')
 ]);
 
+/**
+ * Validator of setting value, validation fails if any of specified constraints (regex, min, max, ...) is not met.
+ */
 export const templateMetadataSettingValidatorSchema = z.object({
     /**
     * Regular expression for validating the setting value (for type 'string').
     */
-    regex: z.string(),
+    regex: z.string().optional(),
     /**
      * Optional regex flags (e.g., 'i' for case-insensitive). Default is no flags.
      */
     flags: z.string().optional(),
+    /**
+     * Minimum allowed value (for type 'number').
+     */
+    min: z.number().optional(),
+    /**
+     * Maximum allowed value (for type 'number').
+     */
+    max: z.number().optional(),
+    /**
+     * Minimum allowed length of value (for type 'string').
+     */
+    minLength: z.number().int().nonnegative().optional(),
+    /**
+     * Maximum allowed length of value (for type 'string').
+     */
+    maxLength: z.number().int().nonnegative().optional(),
+    /**
+     * List of allowed values.
+     */
+    allowedValues: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
     /**
      * Error message if validation fails.
      */
@@ -21,6 +44,45 @@ export const templateMetadataSettingValidatorSchema = z.object({
      * Error code if validation fails (for easier localization and handling).
      */
     errorCode: z.string()
+}).refine(x => x.regex !== undefined || x.min !== undefined || x.max !== undefined ||
+    x.minLength !== undefined || x.maxLength !== undefined || x.allowedValues !== undefined, {
+    message: 'Validator must specify at least one constraint (regex, min, max, minLength, maxLength or allowedValues).'
+});
+
+/**
+ * Condition which depends on value of other setting (e.g. `{ "setting": "Enabled", "equals": true }`).
+ */
+export const templateMetadataSettingConditionSchema = z.object({
+    /**
+     * Name of other setting, either property name in same group (e.g. 'Enabled') or with group name (e.g. 'CSharp.Enabled').
+     */
+    setting: z.string(),
+    /**
+     * Condition is met when value of setting equals to this value.
+     */
+    equals: z.union([z.boolean(), z.string(), z.number()]).optional(),
+    /**
+     * Condition is met when value of setting does not equal to this value.
+     */
+    notEquals: z.union([z.boolean(), z.string(), z.number()]).optional()
+});
+
+/**
+ * Rule which requires setting value to differ from other value.
+ */
+export const templateMetadataSettingDiffersFromSchema = z.object({
+    /**
+     * Name of other setting (same format as in condition) or reference to model property, currently only '\@model.name' is supported.
+     */
+    setting: z.string(),
+    /**
+     * Error message if values are same (compared case insensitive).
+     */
+    error: z.string(),
+    /**
+     * Error code if values are same.
+     */
+    errorCode: z.string()
 });
 
 /**
@@ -55,6 +117,19 @@ export const templateMetadataGroupSettingsSchema = z.object({
      * Regular expression for validating the setting value (for type 'string').
      */
     validators: z.array(templateMetadataSettingValidatorSchema).optional(),
+    /**
+     * Setting is required only when condition is met (overrides `required`),
+     * when condition is not met and value is empty, validators are not run.
+     */
+    requiredWhen: templateMetadataSettingConditionSchema.optional(),
+    /**
+     * Setting applies (is visible in UI and validated) only when condition is met.
+     */
+    visibleWhen: templateMetadataSettingConditionSchema.optional(),
+    /**
+     * Setting value must differ from other setting value (or model property).
+     */
+    differsFrom: templateMetadataSettingDiffersFromSchema.optional(),
     /**
      * List of possible values (for type 'list').
      */
@@ -73,12 +148,84 @@ export const templateMetadataGroupSchema = z.object({
      * Description of the template.
      */
     description: z.string(),
+    /**
+     * Name of base settings group, whose properties are inherited by this group.
+     * Properties of this group overrides base properties with same name (at same position), other properties are appended.
+     */
+    extends: z.string().optional(),
     /**
      * List of settings groups used by this template.
      */
     properties: z.array(templateMetadataGroupSettingsSchema)
 });
 
+/**
+ * Single change of template settings applied by migration (on settings stored in LHQ model file).
+ * Properties are referenced by settings group name (e.g. 'CSharp') and property name.
+ */
+export const templateMetadataMigrationChangeSchema = z.discriminatedUnion('action', [
+    z.object({
+        /**
+         * Renames property (optionally moves it to other group), value is preserved.
+         */
+        action: z.literal('rename'),
+        group: z.string(),
+        property: z.string(),
+        /**
+         * New name of the property.
+         */
+        to: z.string(),
+        /**
+         * New group of the property, when not specified property stays in same group.
+         */
+        toGroup: z.string().optional()
+    }),
+    z.object({
+        /**
+         * Removes property.
+         */
+        action: z.literal('remove'),
+        group: z.string(),
+        property: z.string()
+    }),
+    z.object({
+        /**
+         * Transforms property value, key is the old value and value is the new value.
+         */
+        action: z.literal('map'),
+        group: z.string(),
+        property: z.string(),
+        values: z.record(z.string())
+    }),
+    z.object({
+        /**
+         * Sets property value.
+         */
+        action: z.literal('set'),
+        group: z.string(),
+        property: z.string(),
+        value: z.union([z.string(), z.number(), z.boolean()])
+    })
+]);
+
+/**
+ * Migration of template settings from previous template version to `version`.
+ */
+export const templateMetadataMigrationSchema = z.object({
+    /**
+     * Template version which settings are migrated to.
+     */
+    version: z.number().int().min(2),
+    /**
+     * Optional description of the migration.
+     */
+    description: z.string().optional(),
+    /**
+     * Changes of settings, applied in order.
+     */
+    changes: z.array(templateMetadataMigrationChangeSchema)
+});
+
 export const templateMetadataSchema = z.object({
     /**
      * Display name of the template.
@@ -91,14 +238,26 @@ export const templateMetadataSchema = z.object({
     /**
      * List of settings groups used by this template.
      */
-    settings: z.array(z.string())
+    settings: z.array(z.string()),
+    /**
+     * Version of template settings (default is 1), stored in LHQ model file along with settings.
+     */
+    version: z.number().int().positive().optional(),
+    /**
+     * Migrations of settings stored in LHQ model file with older template version.
+     */
+    migrations: z.array(templateMetadataMigrationSchema).optional()
 });
 
 /**
  * Generator templates metadata structure containing settings and available templates.
  */
 export const templatesMetadataSchema = z.object({
-    settings: z.record(templateMetadataGroupSchema),
+    /**
+     * Settings groups, key is the group name (e.g. 'CSharp').
+     * Can be omitted in metadata of custom templates which reuses only built-in settings groups.
+     */
+    settings: z.record(templateMetadataGroupSchema).default({}),
     templates: z.record(templateMetadataSchema)
 });
 
@@ -106,6 +265,7 @@ export const templateMetadataDefinitionSchema = templateMetadataSchema
     .omit({ settings: true })
     .extend({
         id: z.string(),
+        version: z.number().int().positive(),
         settings: z.record(templateMetadataGroupSchema)
     });
 
@@ -129,4 +289,7 @@ export type TemplateMetadataSettingType = z.infer<typeof templateMetadataSetting
 export type TemplateMetadataDefinition = z.infer<typeof templateMetadataDefinitionSchema>;
 
 export type TemplateMetadataSettingValidator = z.infer<typeof templateMetadataSettingValidatorSchema>;
-export type TemplateMetadataSettingValidationResult = Omit<TemplateMetadataSettingValidator, 'regex' | 'flags'> | undefined;
\ No newline at end of file
+export type TemplateMetadataSettingCondition = z.infer<typeof templateMetadataSettingConditionSchema>;
+export type TemplateMetadataMigration = z.infer<typeof templateMetadataMigrationSchema>;
+export type TemplateMetadataMigrationChange = z.infer<typeof templateMetadataMigrationChangeSchema>;
+export type TemplateMetadataSettingValidationResult = Pick<TemplateMetadataSettingValidator, 'error' | 'errorCode'> | undefined;
\ No newline at end of file
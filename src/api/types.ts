@@ -1,3 +1,4 @@
+import type { ICodeGeneratorElement } from './modelTypes';
 import type { LhqModelLineEndings } from './schemas';
 
 export type Mutable<T> = { -readonly [P in keyof T]: T[P] };
@@ -25,6 +26,13 @@ export type GeneratedFile = {
      * Line endings that should be used when writing content to fileName file.
      */
     lineEndings: LhqModelLineEndings;
+
+    /**
+     * Identifier of code generator template (as declared in model) which produced this file,
+     * files produced by child templates are attributed to code generator template which invoked them.
+     * Always set on files returned by `Generator`, optional for files created by the caller.
+     */
+    templateId?: string;
 };
 
 /**
@@ -35,4 +43,71 @@ export type GenerateResult = {
      * List of generated files.
      */
     generatedFiles: Readonly<GeneratedFile[]>;
-}
\ No newline at end of file
+}
+
+/**
+ * Represents progress of single template run (main or child template) reported by Generator.generateAsync.
+ */
+export type GenerateProgress = {
+    /**
+     * Identifier of code generator template (as declared in model) which is being generated.
+     */
+    codeGeneratorTemplateId: string;
+
+    /**
+     * Identifier of template which was run (code generator template or its child template).
+     */
+    templateId: string;
+
+    /**
+     * Language code passed by host data to template (e.g. child templates generating file per language), or `undefined` if not used.
+     */
+    hostLang: string | undefined;
+
+    /**
+     * Output file name of template run (as defined by template), or `undefined` if template does not define output.
+     */
+    fileName: string | undefined;
+
+    /**
+     * One based index of template run within current code generator.
+     */
+    index: number;
+
+    /**
+     * Total count of template runs (main template and child templates) within current code generator.
+     */
+    total: number;
+};
+
+/**
+ * Options for generation (Generator.generate).
+ */
+export type GenerateOptions = {
+    /**
+     * Optional code generators used instead of code generators declared in model (e.g. unsaved changes of code generator settings in editor).
+     * Source model is not modified by these code generators.
+     */
+    codeGenerators?: ICodeGeneratorElement[];
+
+    /**
+     * Optional flag whether output file paths are case sensitive (e.g. output written to case sensitive file system).
+     * When `false` or unspecified, output files which differ only by letter case are rejected as duplicates.
+     */
+    caseSensitivePaths?: boolean;
+};
+
+/**
+ * Options for asynchronous generation (Generator.generateAsync).
+ */
+export type GenerateAsyncOptions = GenerateOptions & {
+    /**
+     * Optional signal to abort generation, checked between template runs.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Optional callback invoked after each template run (main or child template).
+     */
+    onProgress?: (progress: GenerateProgress) => void;
+};
\ No newline at end of file
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import path from 'node:path';
+import { createHash } from 'node:crypto';
 import { Command } from '@commander-js/extra-typings';
 import { createColors } from 'picocolors'
 import fse from 'fs-extra';
@@ -13,11 +14,12 @@ import {
     Duration, Generator, GeneratorHostDataKeys,
     generatorUtils, isNullOrEmpty, jsonParseOrDefault,
     HostEnvironment, objCount,
-    namespaceUtils, fileUtils,
-    detectFormatting, ModelUtils
+    namespaceUtils, fileUtils, csProjectUtils,
+    detectFormatting, ModelUtils,
+    createUnifiedDiff, tryRemoveBOM, HbsTemplateManager
 } from './index';
 
-import type { GeneratedFile, LhqModel, GeneratorInitialization, FileInfo, ReadFileInfoOptions, FormattingOptions } from './index'
+import type { CodeGeneratorGroupSettings, GeneratedFile, LhqModel, GeneratorInitialization, GeneratorTemplates, FileInfo, ReadFileInfoOptions, FormattingOptions } from './index'
 
 const fileHeader = `//------------------------------------------------------------------------------
 // <auto-generated>
@@ -28,6 +30,30 @@ const fileHeader = `//----------------------------------------------------------
 // </auto-generated>
 //------------------------------------------------------------------------------`;
 
+const manifestVersion = 1;
+
+// project files (C#, VB.NET, F#) used to find namespace and to update items of generated files
+const projectFileExtensions = ['csproj', 'vbproj', 'fsproj'];
+
+// settings groups of templates (C#, VB.NET) with 'Namespace' property, which is fixed by '--fixns' option
+const namespaceSettingsGroups = ['CSharp', 'VisualBasic'];
+
+/**
+ * Manifest of files generated by last run of 'generate' command, saved next to LHQ model file (e.g. 'Strings.lhq.gen.json').
+ */
+type GenerationManifest = {
+    version: number;
+    files: GenerationManifestFile[];
+};
+
+type GenerationManifestFile = {
+    // path relative to manifest file directory (always with '/' separator)
+    path: string;
+    templateId: string;
+    // sha256 hash of file content as saved on disk
+    hash: string;
+};
+
 let pc: Colors = createColors();
 
 const init_cwd = process.env.INIT_CWD!;
@@ -63,60 +89,144 @@ async function validateLhqModelFile(lhqFileName: string, verbose: boolean): Prom
     }
 
     const lhqFile = await safeReadFile(lhqFileName);
-    const model = jsonParseOrDefault<LhqModel>(lhqFile, {} as LhqModel, true);
-    const valid = generatorUtils.validateLhqModel(model);
-    const resultStr = valid.success ? pc.greenBright('VALID:') : pc.redBright('INVALID:');
-    const fileStr = pc.cyanBright(lhqFileName);
-    const validStr = valid.success
-        ? `File ${fileStr} has valid schema.`
-        : `File '${fileStr}' has invalid schema.\n${pc.redBright(valid.error ?? '')}`;
+    const valid = generatorUtils.validateLhqModel(lhqFile);
+    const issues = valid.success ? ModelUtils.validateModelSemantics(valid.model!, lhqFile) : valid.issues;
+    const success = valid.success && !issues.some(x => x.severity === 'error');
 
-    console.log(`${pc.bold(resultStr)} ${validStr}`);
+    const resultStr = success ? pc.greenBright('VALID:') : pc.redBright('INVALID:');
+    const fileStr = pc.cyanBright(lhqFileName);
+    const issuesStr = issues.map(issue => {
+        const position = issue.line === undefined ? '' : `(${issue.line}:${issue.column}) `;
+        const issuePath = isNullOrEmpty(issue.path) ? '' : `${issue.path}: `;
+        const color = issue.severity === 'error' ? pc.redBright : pc.yellow;
+        return `  ${pc.gray(position)}${issuePath}${color(issue.message)} ${pc.gray(`[${issue.code}]`)}`;
+    }).join('\n');
+    const validStr = !valid.success
+        ? `File '${fileStr}' has invalid schema.`
+        : success ? `File ${fileStr} is valid.` : `File '${fileStr}' is not valid.`;
+
+    console.log(`${pc.bold(resultStr)} ${validStr}${issues.length > 0 ? '\n' + issuesStr : ''}`);
 }
 
-async function saveLhqModelFile(model: LhqModel, fileName: string, fileContent?: string): Promise<void> {
-    fileContent = fileContent ?? await safeReadFile(fileName);
-    const options = detectFormatting(fileContent) ?? {} as FormattingOptions;
+// saves model with same formatting (indentation, EOL and BOM) as existing file
+async function saveLhqModelFile(model: LhqModel, fileName: string): Promise<void> {
+    const fileContent = await fse.readFile(fileName, { encoding: 'utf-8' });
+    const options = detectFormatting(tryRemoveBOM(fileContent)) ?? {} as FormattingOptions;
+    const bom = fileContent.startsWith('\uFEFF') ? '\uFEFF' : '';
     const json = ModelUtils.serializeModel(model, options);
-    await fse.writeFile(fileName, json, { encoding: 'utf-8' });
+    await fse.writeFile(fileName, bom + json, { encoding: 'utf-8' });
 }
 
-async function generateFromLhq(hbsTemplatesDir: string, lhqFileName: string, csProjectFileName: string, outputDir: string,
-    hostData: Record<string, unknown>, verbose: boolean, fixNamespace: boolean): Promise<void> {
-
+async function upgradeLhqModelFile(hbsTemplatesDir: string, customTemplatesDir: string, lhqFileName: string, backup: boolean, dryRun: boolean): Promise<void> {
     lhqFileName = path.resolve(lhqFileName);
 
     if (!(await fse.pathExists(lhqFileName))) {
         throw new Error(`LHQ model file '${lhqFileName}' not found.`);
     }
 
-    if (!isNullOrEmpty(csProjectFileName) && !(await fse.pathExists(csProjectFileName))) {
-        throw new Error(`C# project file '${csProjectFileName}' not found.`);
+    Generator.initialize(await createGeneratorInitialization(hbsTemplatesDir, customTemplatesDir));
+
+    const lhqFileContent = await safeReadFile(lhqFileName);
+    const validation = generatorUtils.validateLhqModel(lhqFileContent);
+    if (!validation.success) {
+        throw new Error(`LHQ model file '${lhqFileName}' is not valid: ${validation.error}`);
+    }
+
+    const fileStr = pc.yellow(lhqFileName);
+    if (!ModelUtils.upgradeRequired(ModelUtils.createRootElement(validation.model))) {
+        console.log(`LHQ model file ${fileStr} is up to date (model version ${validation.model!.model.version}).`);
+        return;
+    }
+
+    const result = ModelUtils.upgradeModelData(lhqFileContent, { dryRun });
+    if (!result.success) {
+        throw new Error(`Upgrade of LHQ model file '${lhqFileName}' failed: ${result.error}`);
+    }
+
+    console.log(`${dryRun ? 'Changes to be made by upgrade of' : 'Upgrading'} LHQ model file ${fileStr}:`);
+    result.changes.forEach(change => console.log(`  - ${change}`));
+
+    if (dryRun) {
+        console.log(pc.gray(`\nDry run, file was not changed.`));
+        return;
+    }
+
+    if (backup) {
+        const backupFileName = `${lhqFileName}.bak`;
+        await fse.copy(lhqFileName, backupFileName, { overwrite: true });
+        console.log(`Backup of original file saved to: ${pc.blue(backupFileName)}`);
+    }
+
+    await saveLhqModelFile(result.model!, lhqFileName);
+    console.log(pc.greenBright(`LHQ model file ${lhqFileName} was upgraded to version ${result.model!.model.version}.`));
+}
+
+async function createGeneratorInitialization(hbsTemplatesDir: string, customTemplatesDir: string): Promise<GeneratorInitialization> {
+    const generatorInit: GeneratorInitialization = {
+        ...await loadTemplates(hbsTemplatesDir),
+        hostEnvironment: new HostEnvironmentCli()
+    };
+
+    if (!isNullOrEmpty(customTemplatesDir)) {
+        generatorInit.customTemplates = [await loadTemplates(path.resolve(customTemplatesDir))];
+    }
+
+    return generatorInit;
+}
+
+async function loadTemplates(templatesDir: string): Promise<GeneratorTemplates> {
+    if (!(await fse.pathExists(templatesDir))) {
+        throw new Error(`LHQ templates directory '${templatesDir}' not found.`);
+    }
+
+    const metadataFile = path.join(templatesDir, 'metadata.json');
+    if (!(await fse.pathExists(metadataFile))) {
+        throw new Error(`LHQ templates metadata file '${metadataFile}' not found.`);
     }
 
-    const metadataFile = path.join(hbsTemplatesDir, 'metadata.json');
     const metadataContent = await fse.readFile(metadataFile, { encoding: 'utf-8' });
     const validateResult = generatorUtils.validateTemplateMetadata(metadataContent);
     if (!validateResult.success) {
         throw new Error(`Validation of ${metadataFile} failed: ${validateResult.error}`);
     }
 
-    const generatorInit: GeneratorInitialization = {
+    const hbsFiles = await glob('*.hbs', { cwd: templatesDir, nodir: true });
+
+    if (hbsFiles.length === 0) {
+        throw new Error(`LHQ templates directory '${templatesDir}' is empty.`);
+    }
+
+    const templates: GeneratorTemplates = {
         hbsTemplates: {},
-        templatesMetadata: validateResult.metadata!,
-        hostEnvironment: new HostEnvironmentCli()
+        templatesMetadata: validateResult.metadata!
     };
 
-    if (!(await fse.pathExists(hbsTemplatesDir))) {
-        throw new Error(`LHQ templates directory '${hbsTemplatesDir}' not found.`);
-    }
+    const templateLoaders = hbsFiles.map(async (hbsFile) => {
+        const templateId = path.basename(hbsFile, path.extname(hbsFile));
+        const fullFilePath = path.join(templatesDir, hbsFile);
+        templates.hbsTemplates[templateId] = await safeReadFile(fullFilePath);
+    });
 
-    const hbsFiles = await glob('*.hbs', { cwd: hbsTemplatesDir, nodir: true });
+    await Promise.all(templateLoaders);
 
-    if (hbsFiles.length === 0) {
-        throw new Error(`LHQ templates directory '${hbsTemplatesDir}' is empty.`);
+    return templates;
+}
+
+async function generateFromLhq(hbsTemplatesDir: string, customTemplatesDir: string, lhqFileName: string, csProjectFileName: string, outputDir: string,
+    hostData: Record<string, unknown>, verbose: boolean, fixNamespace: boolean, prune: boolean, check: boolean, updateProject: boolean): Promise<void> {
+
+    lhqFileName = path.resolve(lhqFileName);
+
+    if (!(await fse.pathExists(lhqFileName))) {
+        throw new Error(`LHQ model file '${lhqFileName}' not found.`);
+    }
+
+    if (!isNullOrEmpty(csProjectFileName) && !(await fse.pathExists(csProjectFileName))) {
+        throw new Error(`C# project file '${csProjectFileName}' not found.`);
     }
 
+    const generatorInit = await createGeneratorInitialization(hbsTemplatesDir, customTemplatesDir);
+
     let cmdDataStr = '-';
     const hostDataCount = objCount(hostData);
     if (hostDataCount > 0) {
@@ -131,14 +241,6 @@ async function generateFromLhq(hbsTemplatesDir: string, lhqFileName: string, csP
         }
     }
 
-    const templateLoaders = hbsFiles.map(async (hbsFile) => {
-        const templateId = path.basename(hbsFile, path.extname(hbsFile));
-        const fullFilePath = path.join(hbsTemplatesDir, hbsFile);
-        generatorInit.hbsTemplates[templateId] = await safeReadFile(fullFilePath);
-    });
-
-    await Promise.all(templateLoaders);
-
     const lhqFileContent = await safeReadFile(lhqFileName);
     let model: LhqModel = undefined!;
     try {
@@ -150,7 +252,7 @@ async function generateFromLhq(hbsTemplatesDir: string, lhqFileName: string, csP
     Generator.initialize(generatorInit);
 
     if (fixNamespace) {
-        model = await fixNamespaceForLhqModel(csProjectFileName, lhqFileName, lhqFileContent, model);
+        model = await fixNamespaceForLhqModel(csProjectFileName, lhqFileName, model);
     }
 
     if (isNullOrEmpty(hostData[GeneratorHostDataKeys.fileHeader])) {
@@ -160,6 +262,7 @@ async function generateFromLhq(hbsTemplatesDir: string, lhqFileName: string, csP
     console.log(`Starting code generating for:\n` +
         `- lhq model file: ${pc.yellow(lhqFileName)}
 - out dir: ${outputDir}
+- custom templates: ${isNullOrEmpty(customTemplatesDir) ? '-' : customTemplatesDir}
 - data: ${cmdDataStr}\n`);
 
     //- c# project file: ${hasCsProj ? csProjectFileName : '-'} ${hasCsProj ? `(${csProjFound ? 'auto found' : 'cmd'})` : ''}
@@ -174,41 +277,225 @@ async function generateFromLhq(hbsTemplatesDir: string, lhqFileName: string, csP
 
     const output = path.resolve(outputDir);
     console.log(`Output directory: ${output}`);
-    const saveFilesMap = result.generatedFiles.map(async (file) => {
-        await saveGenFile(file, output);
-        console.log(`Saved file ${file.fileName}.`);
+
+    if (check) {
+        await checkGeneratedFiles(result.generatedFiles, output);
+        return;
+    }
+
+    const manifestFileName = getManifestFileName(lhqFileName);
+    const manifestDir = path.dirname(manifestFileName);
+    const prevManifest = await loadManifest(manifestFileName);
+
+    const saveFilesMap = result.generatedFiles.map(async (file): Promise<GenerationManifestFile> => {
+        const hash = await saveGenFile(file, output);
+        console.log(`Saved file ${file.fileName} ${pc.gray(`(${file.templateId})`)}.`);
+        return { path: getManifestPath(manifestDir, path.join(output, file.fileName)), templateId: file.templateId ?? '', hash };
     });
 
-    await Promise.all(saveFilesMap);
+    const manifestFiles = await Promise.all(saveFilesMap);
+    const staleFiles = await processStaleFiles(prevManifest, manifestFiles, manifestDir, prune);
+
+    await saveManifest(manifestFileName, { version: manifestVersion, files: [...manifestFiles, ...staleFiles] });
+
+    if (updateProject) {
+        // only stale files which were deleted (or do not exist anymore) are removed from project,
+        // kept stale files (not pruned or modified after generation) are still listed in manifest
+        const removedFiles = (prevManifest?.files ?? [])
+            .filter(prev => ![...manifestFiles, ...staleFiles].some(x => isSameManifestPath(x.path, prev.path)))
+            .map(x => path.resolve(manifestDir, x.path));
+        const generatedFiles = result.generatedFiles.map(x => path.join(output, x.fileName));
+
+        await updateCsProjectFile(csProjectFileName, lhqFileName, generatedFiles, removedFiles);
+    }
 }
 
-async function fixNamespaceForLhqModel(csProjectFileName: string, lhqFileName: string, lhqFileContent?: string, model?: LhqModel): Promise<LhqModel> {
-    lhqFileContent = lhqFileContent ?? await safeReadFile(lhqFileName);
-    model = model ?? JSON.parse(lhqFileContent) as LhqModel;
+/**
+ * Compares generated files with files on disk (without writing anything) and prints unified diff for each outdated file.
+ * Sets non-zero process exit code when any file is outdated or missing.
+ */
+async function checkGeneratedFiles(generatedFiles: Readonly<GeneratedFile[]>, outputPath: string): Promise<void> {
+    let outdatedCount = 0;
+
+    for (const file of generatedFiles) {
+        const fileName = path.join(outputPath, file.fileName);
+        if (!(await fse.pathExists(fileName))) {
+            outdatedCount++;
+            console.log(pc.redBright(`Missing file ${file.fileName} ${pc.gray(`(${file.templateId})`)}.`));
+            continue;
+        }
 
-    const namespace = await findNamespaceFromCsProj(csProjectFileName, lhqFileName);
+        const expected = getGenFileBuffer(file);
+        const actual = await fse.readFile(fileName);
+        if (expected.equals(actual)) {
+            continue;
+        }
+
+        outdatedCount++;
+        console.log(pc.redBright(`Outdated file ${file.fileName} ${pc.gray(`(${file.templateId})`)}:`));
+
+        const diff = createUnifiedDiff(tryRemoveBOM(actual.toString('utf8')), generatorUtils.getGeneratedFileContent(file, true),
+            file.fileName, `${file.fileName} (generated)`);
+
+        if (isNullOrEmpty(diff)) {
+            console.log(pc.gray('  (file differs only in BOM or line endings)'));
+        } else {
+            console.log(diff.split('\n').map(line => line.startsWith('+') ? pc.green(line) : line.startsWith('-') ? pc.red(line) : line).join('\n'));
+        }
+    }
+
+    if (outdatedCount > 0) {
+        console.log(pc.redBright(`\n${outdatedCount} of ${generatedFiles.length} generated files are not up to date, run 'generate' command to update them.`));
+        process.exitCode = 1;
+    } else {
+        console.log(pc.greenBright(`All ${generatedFiles.length} generated files are up to date.`));
+    }
+}
+
+function getManifestFileName(lhqFileName: string): string {
+    return `${lhqFileName}.gen.json`;
+}
+
+function getManifestPath(manifestDir: string, fileName: string): string {
+    return path.relative(manifestDir, fileName).split(path.sep).join('/');
+}
+
+function isSameManifestPath(path1: string, path2: string): boolean {
+    return process.platform === 'win32' ? path1.toLowerCase() === path2.toLowerCase() : path1 === path2;
+}
+
+async function loadManifest(manifestFileName: string): Promise<GenerationManifest | undefined> {
+    if (!(await fse.pathExists(manifestFileName))) {
+        return undefined;
+    }
+
+    const manifest = jsonParseOrDefault<GenerationManifest | undefined>(await safeReadFile(manifestFileName), undefined, false);
+    if (manifest === undefined || manifest.version !== manifestVersion || !Array.isArray(manifest.files)) {
+        console.warn(pc.yellow(`Generation manifest '${manifestFileName}' is invalid or has unsupported version, stale files will not be detected.`));
+        return undefined;
+    }
+
+    return manifest;
+}
+
+async function saveManifest(manifestFileName: string, manifest: GenerationManifest): Promise<void> {
+    manifest.files.sort((a, b) => a.path.localeCompare(b.path));
+    await fse.writeFile(manifestFileName, JSON.stringify(manifest, null, 2), { encoding: 'utf-8' });
+}
+
+/**
+ * Reports (or deletes when `prune` is true) files generated by previous run which are not generated anymore.
+ * @returns Stale files which still exist and should be kept in manifest (not pruned or modified after generation).
+ */
+async function processStaleFiles(prevManifest: GenerationManifest | undefined, currentFiles: GenerationManifestFile[],
+    manifestDir: string, prune: boolean): Promise<GenerationManifestFile[]> {
+    if (!prevManifest) {
+        return [];
+    }
+
+    const staleFiles = prevManifest.files.filter(prev => !currentFiles.some(x => isSameManifestPath(x.path, prev.path)));
+    const keptFiles: GenerationManifestFile[] = [];
+
+    for (const staleFile of staleFiles) {
+        const fileName = path.resolve(manifestDir, staleFile.path);
+        if (!(await fse.pathExists(fileName))) {
+            continue;
+        }
+
+        if (!prune) {
+            console.log(pc.yellow(`Stale file ${staleFile.path} ${pc.gray(`(${staleFile.templateId})`)} is not generated anymore (use --prune to delete it).`));
+            keptFiles.push(staleFile);
+            continue;
+        }
+
+        const hash = getContentHash(await fse.readFile(fileName));
+        if (hash !== staleFile.hash) {
+            console.log(pc.yellow(`Stale file ${staleFile.path} was modified after generation, skipped from deletion.`));
+            keptFiles.push(staleFile);
+            continue;
+        }
+
+        await fse.remove(fileName);
+        console.log(`Deleted stale file ${staleFile.path} ${pc.gray(`(${staleFile.templateId})`)}.`);
+    }
+
+    return keptFiles;
+}
+
+function getContentHash(content: Buffer): string {
+    return 'sha256:' + createHash('sha256').update(content).digest('hex');
+}
+
+async function fixNamespaceForLhqModel(csProjectFileName: string, lhqFileName: string, model: LhqModel): Promise<LhqModel> {
     const rootModel = ModelUtils.createRootElement(model);
-    const templateId = rootModel.codeGenerator?.templateId ?? '';
-    if (!isNullOrEmpty(templateId)) {
-        throw new Error('Not implemented yet: fixNamespaceForLhqModel method !');
-        // const csharpSettings = rootModel.codeGenerator?.settings?.childs?.find(x => x.name === 'CSharp');
-        // if (csharpSettings) {
-        //     const currentNamespace = csharpSettings.attrs?.['Namespace'] ?? '';
-        //     if (isNullOrEmpty(currentNamespace)) {
-        //         csharpSettings.attrs!['Namespace'] = namespace;
-        //         model = ModelUtils.rootElementToModel(rootModel);
-        //         await saveLhqModelFile(model, lhqFileName, lhqFileContent);
-        //         console.log(`Namespace '${pc.blueBright(namespace)}' was updated in 'CSharp' settings in file '${pc.yellow(lhqFileName)}'.`);
-        //     }
-        // }
+    const convertor = ModelUtils.getCodeGeneratorSettingsConvertor();
+    const property = 'Namespace';
+
+    // settings group of template with namespace of generated code, including aliased groups (e.g. 'CSharpWinForms:CSharp')
+    const getNamespaceGroup = (templateId: string): string | undefined => {
+        const settings = HbsTemplateManager.getTemplateDefinition(templateId)?.settings ?? {};
+        return namespaceSettingsGroups.find(group => Object.prototype.hasOwnProperty.call(settings, group));
+    };
+
+    const namespaceGenerators = rootModel.codeGenerators.filter(x => getNamespaceGroup(x.templateId) !== undefined);
+    if (namespaceGenerators.length === 0) {
+        console.log(pc.gray(`Option '--fixns' skipped, LHQ model file does not use any C# or VB.NET template.`));
+        return model;
+    }
+
+    const missingNamespace = namespaceGenerators.filter(x =>
+        isNullOrEmpty(convertor.getPropertyValue(x.templateId, x.settings, getNamespaceGroup(x.templateId)!, property)?.value));
+    if (missingNamespace.length === 0) {
+        console.log(pc.gray(`Option '--fixns' skipped, namespace is already set in '${namespaceSettingsGroups.join(`' or '`)}' settings.`));
+        return model;
+    }
+
+    const namespace = await findNamespaceFromCsProj(csProjectFileName, lhqFileName);
+    if (isNullOrEmpty(namespace)) {
+        console.log(pc.yellow(`Namespace for LHQ model file '${lhqFileName}' was not found in project file(s).`));
+        return model;
     }
 
+    rootModel.codeGenerators = rootModel.codeGenerators.map(codeGenerator => {
+        if (!missingNamespace.includes(codeGenerator)) {
+            return codeGenerator;
+        }
+
+        const group = getNamespaceGroup(codeGenerator.templateId)!;
+        const settings = JSON.parse(JSON.stringify(codeGenerator.settings)) as CodeGeneratorGroupSettings;
+        if (!convertor.setPropertyValue(codeGenerator.templateId, settings, group, property, namespace)) {
+            throw new Error(`Namespace '${namespace}' is not valid for '${group}' settings of template '${codeGenerator.templateId}'.`);
+        }
+
+        return { ...ModelUtils.createCodeGeneratorElement(codeGenerator.templateId, settings), version: codeGenerator.version };
+    });
+
+    model = ModelUtils.rootElementToModel(rootModel);
+    await saveLhqModelFile(model, lhqFileName);
+    const groups = [...new Set(missingNamespace.map(x => getNamespaceGroup(x.templateId)!))];
+    console.log(`Namespace '${pc.blueBright(namespace)}' was updated in '${groups.join(`', '`)}' settings in file '${pc.yellow(lhqFileName)}'.`);
+
     return model;
 }
 
 async function findNamespaceFromCsProj(csProjectFileName: string, lhqFileName: string): Promise<string> {
     const lhqFile = await readFileInfo(lhqFileName, { encoding: 'utf-8' });
+    const csProjectFiles = await findCsProjectFiles(csProjectFileName, lhqFile);
+
+    const directoryBuildPropsFiles: FileInfo[] = [];
+    for (const csProjFile of csProjectFiles) {
+        const propsFiles = await fileUtils.findDirectoryBuildPropsFiles(csProjFile.dirname, path, fse.pathExists, fse.readFile);
+        directoryBuildPropsFiles.push(...propsFiles.filter(x => !directoryBuildPropsFiles.some(y => y.full === x.full)));
+    }
+
+    const namespaceInfo = namespaceUtils.findNamespaceForModel({ lhqModelFile: lhqFile, csProjectFiles, directoryBuildPropsFiles });
+    return namespaceInfo?.namespace ?? '';
+}
 
+/**
+ * Returns project file specified by `csProjectFileName` or project files (C#, VB.NET, F#) found in directory of LHQ model file (or nearest parent directory).
+ */
+async function findCsProjectFiles(csProjectFileName: string, lhqFile: FileInfo): Promise<FileInfo[]> {
     const csProjectFiles: FileInfo[] = [];
     if (!isNullOrEmpty(csProjectFileName)) {
         const csProjectFile = await readFileInfo(csProjectFileName, { encoding: 'utf-8', loadContent: true });
@@ -216,31 +503,124 @@ async function findNamespaceFromCsProj(csProjectFileName: string, lhqFileName: s
             csProjectFiles.push(csProjectFile);
         }
     } else {
-        const dir = lhqFile.dirname;
-        const csProjectFilesFound = await glob('*.csproj', { cwd: dir, nodir: true });
-        for (const csProj of csProjectFilesFound) {
-            const csProjPath = path.join(dir, csProj);
-            const csProjFile = await readFileInfo(csProjPath, { encoding: 'utf-8', loadContent: true });
-            if (csProjFile.exist) {
-                csProjectFiles.push(csProjFile);
+        // model can be in sub folder of the project, so search up to the nearest directory with C# project file
+        let dir = lhqFile.dirname;
+        while (csProjectFiles.length === 0) {
+            const csProjectFilesFound = await glob(`*.{${projectFileExtensions.join(',')}}`, { cwd: dir, nodir: true });
+            for (const csProj of csProjectFilesFound) {
+                const csProjPath = path.join(dir, csProj);
+                const csProjFile = await readFileInfo(csProjPath, { encoding: 'utf-8', loadContent: true });
+                if (csProjFile.exist) {
+                    csProjectFiles.push(csProjFile);
+                }
+            }
+
+            const parentDir = path.dirname(dir);
+            if (parentDir === dir) {
+                break;
             }
+            dir = parentDir;
         }
     }
 
-    const namespaceInfo = namespaceUtils.findNamespaceForModel({ lhqModelFile: lhqFile, csProjectFiles });
-    return namespaceInfo?.namespace ?? '';
+    return csProjectFiles;
 }
 
-async function saveGenFile(generatedFile: GeneratedFile, outputPath?: string): Promise<void> {
+/**
+ * Adds items of generated files into (old-style) C# project file and removes items of files which are not generated anymore.
+ */
+async function updateCsProjectFile(csProjectFileName: string, lhqFileName: string, generatedFileNames: string[], removedFileNames: string[]): Promise<void> {
+    const lhqFile = await readFileInfo(lhqFileName, { encoding: 'utf-8' });
+    const csProjectFiles = await findCsProjectFiles(csProjectFileName, lhqFile);
+    if (csProjectFiles.length !== 1) {
+        throw new Error(csProjectFiles.length === 0
+            ? `C# project file for '${lhqFileName}' not found, specify it with the '--project' argument.`
+            : `Multiple C# project files found for '${lhqFileName}', specify which one to update with the '--project' argument.`);
+    }
+
+    const csProjectFile = csProjectFiles[0];
+    const projectDir = csProjectFile.dirname;
+    const toProjectPath = (fileName: string): string | undefined => {
+        const relative = path.relative(projectDir, fileName);
+        return isOutsideRelativePath(relative) ? undefined : relative.split(path.sep).join('\\');
+    };
+
+    const generatedFiles = generatedFileNames.map(toProjectPath).filter(x => x !== undefined);
+    const removedFiles = removedFileNames.map(toProjectPath).filter(x => x !== undefined);
+    if (generatedFiles.length < generatedFileNames.length) {
+        console.log(pc.yellow(`Some generated files are outside of C# project directory '${projectDir}' and were not added to the project.`));
+    }
+
+    const result = csProjectUtils.updateCsProjectItems(csProjectFile.content as string,
+        { generatedFiles, removedFiles, lhqModelFile: toProjectPath(lhqFile.full) });
+
+    const fileStr = pc.yellow(csProjectFile.full);
+    if (result.sdkStyle) {
+        console.log(pc.gray(`C# project file ${fileStr} is SDK-style project (files are included by globbing), project was not updated.`));
+        return;
+    }
+
+    if (result.addedItems.length === 0 && result.removedItems.length === 0) {
+        console.log(pc.gray(`C# project file ${fileStr} is up to date.`));
+        return;
+    }
+
+    const fileContent = await fse.readFile(csProjectFile.full, { encoding: 'utf-8' });
+    const bom = fileContent.startsWith('\uFEFF') ? '\uFEFF' : '';
+    await fse.writeFile(csProjectFile.full, bom + result.content, { encoding: 'utf-8' });
+
+    result.addedItems.forEach(x => console.log(`Added item ${x} to C# project file.`));
+    result.removedItems.forEach(x => console.log(`Removed item ${x} from C# project file.`));
+    console.log(`C# project file ${fileStr} was updated.`);
+}
+
+function getGenFileBuffer(generatedFile: GeneratedFile): Buffer {
     const content = generatorUtils.getGeneratedFileContent(generatedFile, true);
     const bom = generatedFile.bom ? '\uFEFF' : '';
-    const encodedText = Buffer.from(bom + content, 'utf8');
+    return Buffer.from(bom + content, 'utf8');
+}
+
+// relative path (result of `path.relative`) points outside of base directory,
+// file or folder names starting with '..' (e.g. '..Resources') are still inside
+function isOutsideRelativePath(relative: string): boolean {
+    return relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative);
+}
+
+async function saveGenFile(generatedFile: GeneratedFile, outputPath?: string): Promise<string> {
+    const encodedText = getGenFileBuffer(generatedFile);
 
     const fileName = !outputPath ? generatedFile.fileName : path.join(outputPath, generatedFile.fileName);
+    const relative = path.relative(outputPath ?? '.', fileName);
+    if (isOutsideRelativePath(relative)) {
+        throw new Error(`Generated file '${generatedFile.fileName}' points outside of output directory '${outputPath ?? '.'}'.`);
+    }
+
     const dir = path.dirname(fileName);
 
     await fse.ensureDir(dir);
     await fse.writeFile(fileName, encodedText, { encoding: 'utf8' });
+
+    return getContentHash(encodedText);
+}
+
+async function generateSettingsSchema(hbsTemplatesDir: string, customTemplatesDir: string, templateId: string, outFile: string,
+    stringValues: boolean, metadataNode: boolean): Promise<void> {
+    const generator = new Generator(await createGeneratorInitialization(hbsTemplatesDir, customTemplatesDir));
+    const definition = generator.templateManager.getTemplateDefinition(templateId);
+    if (!definition) {
+        const templateIds = Object.keys(generator.templateManager.getTemplateDefinitions()).join(', ');
+        throw new Error(`Template '${templateId}' not found (available templates: ${templateIds}).`);
+    }
+
+    const schema = generatorUtils.generateTemplateSettingsSchema(definition, { stringValues, metadataNode });
+    if (isNullOrEmpty(outFile)) {
+        console.log(schema);
+    } else {
+        outFile = path.resolve(outFile);
+        await fse.ensureDir(path.dirname(outFile));
+        await fse.writeFile(outFile, schema, { encoding: 'utf-8' });
+        console.log(`Settings schema for template '${templateId}' saved to: ${pc.blue(outFile)}`);
+    }
 }
 
 // async function tempRun() {
@@ -271,7 +651,9 @@ async function saveGenFile(generatedFile: GeneratedFile, outputPath?: string): P
             args.splice(helpIdx, 1);
         }
 
-        const lhqfile = args.length > 0 ? args.shift() ?? '' : '';
+        // command 'schema' does not work with LHQ file
+        const isSchemaCmd = args.length > 0 && args[0] === 'schema';
+        const lhqfile = args.length > 0 && !isSchemaCmd ? args.shift() ?? '' : '';
 
         if (noColors) {
             process.env['NO_COLOR'] = noColors ? '1' : '';
@@ -301,6 +683,8 @@ ${pc.bold('Examples:')}
   ${cliToolNameColor} ${pc.yellow('Strings.lhq')} ${cliCommand('generate')} --project MyProject.csproj --out ./output --data namespace=Namespace1
   ${cliToolNameColor} ${pc.yellow('Strings.lhq')} -o ./output
   ${cliToolNameColor} ${pc.yellow('Strings.lhq')} ${cliCommand('validate')}
+  ${cliToolNameColor} ${pc.yellow('Strings.lhq')} ${cliCommand('upgrade')} --backup
+  ${cliToolNameColor} ${cliCommand('schema')} --template NetCoreResxCsharp01
 
   ${cliItalic(hint)}
 `);
@@ -321,15 +705,23 @@ ${pc.bold('Examples:')}
             //.usage('<lhqfile> [options]')
             //.usage('<lhqfile> generate [options]')
             //.addHelpText('before', '<lhqfile> Q#1')
-            .option('-p, --project <project>', 'The C# project file *.csproj (e.g., MyProject.csproj)')
+            .option('-p, --project <project>', 'The C# (or VB.NET, F#) project file *.csproj, *.vbproj, *.fsproj (e.g., MyProject.csproj)')
             .option('-o, --out <out>', 'The output directory', '.')
             .option('--fixns', 'Fix missing namespace for C# templates', false)
             .option('-d, --data <data...>', 'Key-value pairs for host data (e.g., key=value)')
+            .option('-t, --templates <templates>', 'The directory with custom templates (*.hbs files and metadata.json) used in addition to built-in templates')
+            .option('--prune', 'Delete stale files generated by previous run which are not generated anymore (listed in <lhqfile>.gen.json manifest)', false)
+            .option('--check', 'Check that generated files on disk are up to date (nothing is written), prints diff and exits with non-zero code when not', false)
+            .option('--update-project', 'Add items of generated files into C# project file and remove items of files not generated anymore (old-style projects only)', false)
             .addHelpText(
                 'after',
                 `
 ${pc.bold('Examples:')}
   ${cliToolNameColor} ${pc.yellow('Strings.lhq')} ${cliCommand('generate')} --project MyProject.csproj --out ./output --data namespace=Namespace1
+  ${cliToolNameColor} ${pc.yellow('Strings.lhq')} ${cliCommand('generate')} --templates ./my-templates --out ./output
+  ${cliToolNameColor} ${pc.yellow('Strings.lhq')} ${cliCommand('generate')} --out ./output --prune
+  ${cliToolNameColor} ${pc.yellow('Strings.lhq')} ${cliCommand('generate')} --out ./output --check
+  ${cliToolNameColor} ${pc.yellow('Strings.lhq')} ${cliCommand('generate')} --project MyProject.csproj --update-project
 `)
             .action(async (options) => {
                 let hostData: Record<string, string>;
@@ -346,9 +738,15 @@ ${pc.bold('Examples:')}
                 }
 
                 const fixNamespace = options.fixns ?? false;
+                const prune = options.prune ?? false;
+                const check = options.check ?? false;
+                const updateProject = options.updateProject ?? false;
+                if (check && (prune || fixNamespace || updateProject)) {
+                    throw new Error(`Option '--check' cannot be combined with '--prune', '--fixns' or '--update-project' (check mode does not write any file).`);
+                }
 
                 const hbsTemplatesDir = path.join(cwd, 'hbs');
-                await generateFromLhq(hbsTemplatesDir, lhqfile, options.project ?? '', options.out ?? '.', hostData, verbose, fixNamespace);
+                await generateFromLhq(hbsTemplatesDir, options.templates ?? '', lhqfile, options.project ?? '', options.out ?? '.', hostData, verbose, fixNamespace, prune, check, updateProject);
             });
 
         const validateCommand = new Command('validate')
@@ -366,8 +764,48 @@ ${pc.bold('Examples:')}
             });
 
 
+        const upgradeCommand = new Command('upgrade')
+            .description('Upgrade the input LHQ file (model and code generator settings) to the latest version')
+            .option('-t, --templates <templates>', 'The directory with custom templates (*.hbs files and metadata.json) used in addition to built-in templates')
+            .option('--backup', 'Save copy of original file (<lhqfile>.bak) before upgrade', false)
+            .option('--dry-run', 'Only print changes which would be made by upgrade (nothing is written)', false)
+            .addHelpText(
+                'after',
+                `
+${pc.bold('Examples:')}
+  ${cliToolNameColor} ${pc.yellow('Strings.lhq')} ${cliCommand('upgrade')} --backup
+  ${cliToolNameColor} ${pc.yellow('Strings.lhq')} ${cliCommand('upgrade')} --dry-run
+`)
+            .action(async (options) => {
+                const hbsTemplatesDir = path.join(cwd, 'hbs');
+                await upgradeLhqModelFile(hbsTemplatesDir, options.templates ?? '', lhqfile, options.backup ?? false, options.dryRun ?? false);
+            });
+
+        const schemaCommand = new Command('schema')
+            .description('Output JSON schema of code generator settings for specific template')
+            .requiredOption('--template <template>', 'The template id (e.g., NetCoreResxCsharp01)')
+            .option('-t, --templates <templates>', 'The directory with custom templates (*.hbs files and metadata.json) used in addition to built-in templates')
+            .option('-o, --out <out>', 'The output file, when omitted schema is written to standard output')
+            .option('--string-values', 'Describe setting values as strings (e.g. "true", "4") instead of their own types', false)
+            .option('--metadata-node', 'Describe template "content" node of "metadatas" node in LHQ file (setting values are strings in "attrs" of "Settings" child nodes)', false)
+            .addHelpText(
+                'after',
+                `
+${pc.bold('Examples:')}
+  ${cliToolNameColor} ${cliCommand('schema')} --template NetCoreResxCsharp01
+  ${cliToolNameColor} ${cliCommand('schema')} --template NetCoreResxCsharp01 --out ./NetCoreResxCsharp01.schema.json
+  ${cliToolNameColor} ${cliCommand('schema')} --template NetCoreResxCsharp01 --metadata-node
+`)
+            .action(async (options) => {
+                const hbsTemplatesDir = path.join(cwd, 'hbs');
+                await generateSettingsSchema(hbsTemplatesDir, options.templates ?? '', options.template, options.out ?? '',
+                    options.stringValues ?? false, options.metadataNode ?? false);
+            });
+
         program.addCommand(generateCommand);
         program.addCommand(validateCommand);
+        program.addCommand(upgradeCommand);
+        program.addCommand(schemaCommand);
 
         //await tempRun();
 
@@ -379,16 +817,20 @@ ${pc.bold('Examples:')}
                 generateCommand.outputHelp();
             } else if (cmdHelpName === 'validate') {
                 validateCommand.outputHelp();
+            } else if (cmdHelpName === 'upgrade') {
+                upgradeCommand.outputHelp();
+            } else if (cmdHelpName === 'schema') {
+                schemaCommand.outputHelp();
             }
             process.exit(0);
         }
 
         let rootCmd = 'generate';
-        if (args.length > 0 && ['generate', 'validate'].includes(args[0])) {
+        if (args.length > 0 && ['generate', 'validate', 'upgrade', 'schema'].includes(args[0])) {
             rootCmd = args.shift()!;
         }
 
-        if (isHelp || (args.length === 0 && isNullOrEmpty(lhqfile))) {
+        if (isHelp || (rootCmd !== 'schema' && args.length === 0 && isNullOrEmpty(lhqfile))) {
             program.outputHelp();
             process.exit(0);
         }
@@ -396,7 +838,10 @@ ${pc.bold('Examples:')}
         if (isVersion) {
             await program.parseAsync(['--version'], { from: 'user' });
         } else {
-            console.log(cliToolHeader());
+            // schema is written to standard output, so it must not be mixed with header
+            if (rootCmd !== 'schema') {
+                console.log(cliToolHeader());
+            }
             await program.parseAsync([rootCmd, ...args], { from: 'user' });
         }
     } catch (error) {
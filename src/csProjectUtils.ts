@@ -0,0 +1,187 @@
+import { parseXmlDocument } from './namespaceUtils';
+import type { UpdateCsProjectItemsOptions, UpdateCsProjectItemsResult } from './types';
+import { detectLineEndings, getLineEndingsRaw, isNullOrEmpty } from './utils';
+
+type CsProjectItemType = 'Compile' | 'EmbeddedResource' | 'None';
+
+const fileItemTypes = ['Compile', 'EmbeddedResource', 'None', 'Content'];
+const regexItemGroup = /^([ \t]*)<ItemGroup\s*>([\s\S]*?)^([ \t]*)<\/ItemGroup>/gm;
+const regexProjectEnd = /^([ \t]*)<\/Project>/m;
+
+/**
+ * Checks if C# project file is SDK-style project (eg: `<Project Sdk="Microsoft.NET.Sdk">`), which includes files by globbing.
+ * @param csProjectFileContent - The string content of the C# project file.
+ * @returns `true` if project is SDK-style project, `false` otherwise.
+ */
+export function isSdkStyleProject(csProjectFileContent: string): boolean {
+    const root = parseXmlDocument(csProjectFileContent).documentElement;
+    if (!root) {
+        return false;
+    }
+
+    return !isNullOrEmpty(root.getAttribute('Sdk')) ||
+        Array.from(root.getElementsByTagName('Sdk')).length > 0 ||
+        Array.from(root.getElementsByTagName('Import')).some(x => !isNullOrEmpty(x.getAttribute('Sdk')));
+}
+
+/**
+ * Updates items of old-style (non SDK) C# project file, adds missing `<Compile>` (for `*.cs`, `*.vb`, `*.fs`), `<EmbeddedResource>` (for `*.resx`)
+ * or `<None>` (other files) items for generated files and removes items of files which are not generated anymore.
+ * Project file is updated as text, so its formatting (indentation, line endings, comments) is kept.
+ * SDK-style projects are never updated (they include files by globbing).
+ * @param csProjectFileContent - The string content of the C# project file.
+ * @param options - Generated and removed files (paths relative to C# project directory).
+ * @returns Result with updated content of the C# project file and list of added and removed items.
+ */
+export function updateCsProjectItems(csProjectFileContent: string, options: UpdateCsProjectItemsOptions): UpdateCsProjectItemsResult {
+    const result: UpdateCsProjectItemsResult = { content: csProjectFileContent, sdkStyle: false, addedItems: [], removedItems: [] };
+
+    if (isSdkStyleProject(csProjectFileContent)) {
+        result.sdkStyle = true;
+        return result;
+    }
+
+    const eol = getLineEndingsRaw(detectLineEndings(csProjectFileContent, 'CRLF')!);
+    const generatedFiles = options.generatedFiles.map(toIncludePath);
+    let content = csProjectFileContent;
+
+    for (const removedFile of (options.removedFiles ?? []).map(toIncludePath)) {
+        if (generatedFiles.some(x => isSamePath(x, removedFile))) {
+            continue;
+        }
+
+        const regexItem = new RegExp(`^[ \\t]*<(${fileItemTypes.join('|')})\\s+Include="${toPathPattern(removedFile)}"\\s*(?:/>|>[\\s\\S]*?</\\1>)[ \\t]*(?:\\r?\\n)?`, 'gmi');
+        const newContent = content.replace(regexItem, '');
+        if (newContent !== content) {
+            content = newContent;
+            result.removedItems.push(removedFile);
+        }
+    }
+
+    const existingItems = getFileItems(content);
+    const lhqModelFile = isNullOrEmpty(options.lhqModelFile) ? '' : toIncludePath(options.lhqModelFile);
+
+    for (const generatedFile of [...generatedFiles].sort((a, b) => a.localeCompare(b))) {
+        if (existingItems.some(x => isSamePath(x, generatedFile))) {
+            continue;
+        }
+
+        const itemType = getItemType(generatedFile);
+        const dependentUpon = getDependentUpon(generatedFile, lhqModelFile);
+        const newContent = addItem(content, itemType, generatedFile, dependentUpon, eol);
+        if (newContent === undefined) {
+            continue;
+        }
+
+        content = newContent;
+        existingItems.push(generatedFile);
+        result.addedItems.push(generatedFile);
+    }
+
+    result.content = content;
+    return result;
+}
+
+function toIncludePath(fileName: string): string {
+    return fileName.replace(/\//g, '\\').replace(/^\.\\/, '');
+}
+
+function isSamePath(path1: string, path2: string): boolean {
+    return path1.toLowerCase() === path2.toLowerCase();
+}
+
+function getDirectory(fileName: string): string {
+    const idx = fileName.lastIndexOf('\\');
+    return idx === -1 ? '' : fileName.substring(0, idx);
+}
+
+function getFileName(fileName: string): string {
+    return fileName.substring(fileName.lastIndexOf('\\') + 1);
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// regex pattern of path in 'Include' attribute (xml escaped), matching both '\' and '/' separators
+function toPathPattern(fileName: string): string {
+    return escapeXml(fileName).split('\\')
+        .map(x => x.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[\\\\/]');
+}
+
+function getFileItems(content: string): string[] {
+    const root = parseXmlDocument(content).documentElement;
+    if (!root) {
+        return [];
+    }
+
+    return fileItemTypes.flatMap(type => Array.from(root.getElementsByTagName(type)))
+        .map(x => x.getAttribute('Include') ?? '')
+        .filter(x => !isNullOrEmpty(x))
+        .map(toIncludePath);
+}
+
+function getItemType(fileName: string): CsProjectItemType {
+    const ext = fileName.substring(fileName.lastIndexOf('.')).toLowerCase();
+    return ['.cs', '.vb', '.fs'].includes(ext) ? 'Compile' : ext === '.resx' ? 'EmbeddedResource' : 'None';
+}
+
+// generated files in the same folder as LHQ model file depends on it,
+// resx files must not depend on generated C# file, otherwise MSBuild names manifest resource by first class in that file
+function getDependentUpon(fileName: string, lhqModelFile: string): string | undefined {
+    return !isNullOrEmpty(lhqModelFile) && isSamePath(getDirectory(lhqModelFile), getDirectory(fileName))
+        ? getFileName(lhqModelFile)
+        : undefined;
+}
+
+// returns `undefined` when there is no place to insert item (no item group and no closing project element)
+function addItem(content: string, itemType: CsProjectItemType, fileName: string, dependentUpon: string | undefined, eol: string): string | undefined {
+    // last item group with items of same type or with any file items
+    const itemGroups = [...content.matchAll(regexItemGroup)].reverse();
+    const itemGroup = itemGroups.find(x => new RegExp(`<${itemType}\\s`).test(x[2])) ??
+        itemGroups.find(x => fileItemTypes.some(type => new RegExp(`<${type}\\s`).test(x[2])));
+
+    let groupIndent: string;
+    let indent: string;
+    let insertAt: number;
+    let prefix = '';
+    let suffix = '';
+
+    if (itemGroup) {
+        groupIndent = itemGroup[1];
+        indent = /^([ \t]*)</m.exec(itemGroup[2])?.[1] ?? groupIndent + '  ';
+        // insert before closing tag of item group (at start of its line)
+        insertAt = itemGroup.index + itemGroup[0].length - itemGroup[3].length - '</ItemGroup>'.length;
+    } else {
+        const projectEnd = regexProjectEnd.exec(content);
+        if (!projectEnd) {
+            return undefined;
+        }
+
+        const childIndent = /^([ \t]+)</m.exec(content)?.[1] ?? '  ';
+        groupIndent = childIndent;
+        indent = childIndent + childIndent;
+        insertAt = projectEnd.index;
+        prefix = `${groupIndent}<ItemGroup>${eol}`;
+        suffix = `${groupIndent}</ItemGroup>${eol}`;
+    }
+
+    const indentUnit = indent.length > groupIndent.length ? indent.substring(groupIndent.length) : '  ';
+    const include = escapeXml(fileName);
+    const children: string[] = [];
+    if (dependentUpon) {
+        if (itemType === 'Compile') {
+            children.push('<AutoGen>True</AutoGen>', '<DesignTime>True</DesignTime>');
+        }
+        children.push(`<DependentUpon>${escapeXml(dependentUpon)}</DependentUpon>`);
+    }
+
+    const item = children.length === 0
+        ? `${indent}<${itemType} Include="${include}" />${eol}`
+        : `${indent}<${itemType} Include="${include}">${eol}` +
+        children.map(x => `${indent}${indentUnit}${x}${eol}`).join('') +
+        `${indent}</${itemType}>${eol}`;
+
+    return content.substring(0, insertAt) + prefix + item + suffix + content.substring(insertAt);
+}
\ No newline at end of file
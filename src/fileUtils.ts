@@ -1,5 +1,6 @@
 import { isNullOrEmpty, tryRemoveBOM } from '.';
 import type { FileInfo, ReadFileInfoOptions } from './types';
+import { importsParentDirectoryBuildProps } from './msbuildEvaluator';
 import { type PlatformPath } from 'node:path'; 
 
 export type pathExistsCallback = (path: string) => Promise<boolean>;
@@ -84,4 +85,35 @@ export async function readFileInfo(inputPath: string, platformPath: PlatformPath
     }
 
     return { full, relative: relative, exist, basename, dirname, ext: ext, extless: extless, content };
+}
+
+/**
+ * Finds `Directory.Build.props` files used by MSBuild for project in the given directory, which is the nearest file
+ * (in the given directory or its parent directories) and files from parent directories explicitly imported by it (see `importsParentDirectoryBuildProps`).
+ * @param directory - Directory where search starts (eg: directory of C# project file).
+ * @param platformPath - Platform specific path module.
+ * @param pathExists - Callback to check if path exists.
+ * @param readFile - Callback to read file content.
+ * @returns Found files (with loaded content) ordered from the top-most directory.
+ */
+export async function findDirectoryBuildPropsFiles(directory: string, platformPath: PlatformPath,
+    pathExists: pathExistsCallback, readFile: readFileCallback): Promise<FileInfo[]> {
+    const result: FileInfo[] = [];
+
+    let dir = directory;
+    while (!isNullOrEmpty(dir)) {
+        const fileName = platformPath.join(dir, 'Directory.Build.props');
+        if (await pathExists(fileName)) {
+            const file = await readFileInfo(fileName, platformPath, pathExists, readFile, { loadContent: true, encoding: 'utf-8' });
+            result.unshift(file);
+            if (!importsParentDirectoryBuildProps(file.content as string)) {
+                break;
+            }
+        }
+
+        const parent = platformPath.dirname(dir);
+        dir = parent === dir ? '' : parent;
+    }
+
+    return result;
 }
\ No newline at end of file
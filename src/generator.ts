@@ -1,15 +1,15 @@
-import { isNullOrEmpty, jsonParseOrDefault } from './utils';
-import { AppError, AppErrorKinds } from './AppError';
+import { isNullOrEmpty, jsonParseOrDefault, yieldToEventLoop } from './utils';
+import { AppError, AppErrorCodes, AppErrorKinds } from './AppError';
 import { RootModelElement } from './model/rootModelElement';
-import { registerHelpers } from './helpers';
 import { type OutputFileData, type OutputInlineData, TemplateRootModel } from './model/templateRootModel';
 import { HbsTemplateManager } from './hbsManager';
 import { DefaultCodeGenSettings } from './model/modelConst';
-import type { CodeGeneratorBasicSettings, ICodeGeneratorSettingsConvertor } from './api/modelTypes';
-import type { GeneratedFile, GenerateResult } from './api/types';
-import { validateLhqModel } from './generatorUtils';
-import type { GeneratorInitialization, IHostEnvironment } from './types';
+import type { CodeGeneratorBasicSettings, ICodeGeneratorElement, ICodeGeneratorSettingsConvertor, IRootModelElement } from './api/modelTypes';
+import type { GenerateAsyncOptions, GeneratedFile, GenerateOptions, GenerateProgress, GenerateResult } from './api/types';
+import { mergeTemplates, validateLhqModel } from './generatorUtils';
+import type { CustomHelpers, GeneratorInitialization, HbsTemplatesData, IHostEnvironment } from './types';
 import type { LhqModel } from './api';
+import type { TemplatesMetadata } from './api/templates';
 import { CodeGeneratorSettingsConvertor } from './settingsConvertor';
 import { ModelUtils } from './modelUtils';
 
@@ -19,6 +19,24 @@ export const GeneratorHostDataKeys = Object.freeze({
     fileHeader: 'fileHeader'
 });
 
+type GeneratorContext = {
+    templateManager: HbsTemplateManager;
+    settingsConvertor: ICodeGeneratorSettingsConvertor;
+    hostEnv: IHostEnvironment;
+};
+
+// state of single generate call
+type GenerateSession = {
+    rootModel: IRootModelElement;
+    codeGenerators: readonly ICodeGeneratorElement[];
+    hostData: Record<string, unknown>;
+    context: GeneratorContext;
+    generatedFiles: GeneratedFile[];
+    // key - normalized (lower case, unless paths are case sensitive) output file path, value - template id which generated the file
+    outputFiles: Map<string, string>;
+    caseSensitivePaths: boolean;
+};
+
 /**
  * Generator class that generates code files based on Handlebars templates.
  * 
@@ -28,88 +46,208 @@ export const GeneratorHostDataKeys = Object.freeze({
  * - Handlebars templates: a dictionary of Handlebars templates that will be used to generate the code files.
  *   - each key is unique template identifier and value is the template content.
  * - Host environment: an instance of the IHostEnvironment interface that provides access to the file system and other host-specific functionality.
- * 
+ * - Custom templates (optional): extra user supplied templates with metadata, merged with built-in templates.
+ * - Custom helpers (optional): extra user supplied handlebars helpers (named with prefix), registered in addition to built-in helpers.
+ *
+ * Generator instance created with initialization information (`new Generator(init)`) is isolated, it owns private handlebars environment,
+ * template manager and helpers, so multiple generators with different templates can be used side by side.
+ * Generator instance created without initialization information uses default context initialized by `Generator.initialize`.
+ *
  * The generate method takes a `LHQ` model and a dictionary of host data (parsed from cmd line `--data` argument).
- * Parsed `lhq` file contains identification of template to use and then this handlebars template is used to generate code files based on it.
+ * Parsed `lhq` file contains identification of template(s) to use (one per declared code generator) and then these handlebars templates are used to generate code files based on it.
  * 
  * The generated files are returned as a list of `GeneratedFile` structure, which contain the file name and content of each generated file.
  */
 export class Generator {
-    private static _initialized = false;
-    private static hostEnv: IHostEnvironment;
-    private static settingsConvertor: ICodeGeneratorSettingsConvertor;
+    private static _default: GeneratorContext | undefined;
 
-    private _generatedFiles: GeneratedFile[] = [];
+    private readonly _context: GeneratorContext | undefined;
 
     /**
-     * Initializes the generator with the given initialization information.
+     * Creates a new generator instance.
+     * 
+     * @param initialization - Optional initialization information, when specified generator will own its private
+     * template manager (with own handlebars environment and helpers) and settings convertor,
+     * otherwise generator uses default ones initialized by static method `Generator.initialize`.
+     * @throws Error if the initialization information is invalid.
+     */
+    constructor(initialization?: GeneratorInitialization) {
+        if (initialization !== undefined) {
+            this._context = Generator.createContext(initialization,
+                (hbsTemplates, templatesMetadata, customHelpers) => new HbsTemplateManager(hbsTemplates, templatesMetadata, customHelpers));
+        }
+    }
+
+    /**
+     * Initializes default generator context (used by generator instances created without initialization information).
+     * 
+     * Calling this method again re-initializes default context with new initialization information.
      * 
      * @param initialization - The initialization information for the generator.
      * @throws Error if the initialization information is invalid or missing.
      */
     public static initialize(initialization: GeneratorInitialization): void {
-        if (!Generator._initialized) {
-            if (isNullOrEmpty(initialization)) {
-                throw new Error('Generator initialization is required !');
-            }
+        Generator._default = undefined;
+        Generator._default = Generator.createContext(initialization,
+            (hbsTemplates, templatesMetadata, customHelpers) => HbsTemplateManager.init(hbsTemplates, templatesMetadata, customHelpers));
+    }
 
-            if (isNullOrEmpty(initialization.hbsTemplates)) {
-                throw new Error('Handlebars templates are required (initialization.hbsTemplates) !');
-            }
+    private static createContext(initialization: GeneratorInitialization,
+        createTemplateManager: (hbsTemplates: HbsTemplatesData, templatesMetadata: TemplatesMetadata, customHelpers?: CustomHelpers) => HbsTemplateManager): GeneratorContext {
+        if (isNullOrEmpty(initialization)) {
+            throw new Error('Generator initialization is required !');
+        }
 
-            if (Object.keys(initialization.hbsTemplates).length === 0) {
-                throw new Error('Handlebars templates cannot be empty are required (initialization.hbsTemplates) !');
-            }
+        if (isNullOrEmpty(initialization.hbsTemplates)) {
+            throw new Error('Handlebars templates are required (initialization.hbsTemplates) !');
+        }
 
-            if (isNullOrEmpty(initialization.templatesMetadata)) {
-                throw new Error('Templates metadata is required (initialization.templatesMetadata) !');
-            }
+        if (Object.keys(initialization.hbsTemplates).length === 0) {
+            throw new Error('Handlebars templates cannot be empty are required (initialization.hbsTemplates) !');
+        }
 
-            if (Object.keys(initialization.templatesMetadata).length === 0) {
-                throw new Error('Templates metadata cannot be empty (initialization.templatesMetadata) !');
-            }
+        if (isNullOrEmpty(initialization.templatesMetadata)) {
+            throw new Error('Templates metadata is required (initialization.templatesMetadata) !');
+        }
 
-            if (isNullOrEmpty(initialization.hostEnvironment)) {
-                throw new Error('Host environment is required (initialization.hostEnvironment) !');
-            }
+        if (Object.keys(initialization.templatesMetadata).length === 0) {
+            throw new Error('Templates metadata cannot be empty (initialization.templatesMetadata) !');
+        }
+
+        if (isNullOrEmpty(initialization.hostEnvironment)) {
+            throw new Error('Host environment is required (initialization.hostEnvironment) !');
+        }
 
-            HbsTemplateManager.init(initialization.hbsTemplates, initialization.templatesMetadata);
+        let { hbsTemplates, templatesMetadata } = initialization;
+        if (initialization.customTemplates && initialization.customTemplates.length > 0) {
+            ({ hbsTemplates, templatesMetadata } = mergeTemplates(initialization, ...initialization.customTemplates));
+        }
+
+        const templateManager = createTemplateManager(hbsTemplates, templatesMetadata, initialization.customHelpers);
 
-            Generator.settingsConvertor = new CodeGeneratorSettingsConvertor();
+        return {
+            templateManager,
+            settingsConvertor: new CodeGeneratorSettingsConvertor(templateManager),
+            hostEnv: initialization.hostEnvironment
+        };
+    }
 
-            Generator.hostEnv = initialization.hostEnvironment;
-            registerHelpers(initialization.hostEnvironment);
-            Generator._initialized = true;
+    private get context(): GeneratorContext {
+        const context = this._context ?? Generator._default;
+        if (context === undefined) {
+            throw new AppError('Generator not initialized !');
         }
+
+        return context;
+    }
+
+    /**
+     * Template manager used by this generator instance.
+     */
+    public get templateManager(): HbsTemplateManager {
+        return this.context.templateManager;
+    }
+
+    /**
+     * Settings convertor (bound to template manager) used by this generator instance.
+     */
+    public get settingsConvertor(): ICodeGeneratorSettingsConvertor {
+        return this.context.settingsConvertor;
     }
 
     /**
      * Generates code files based on the provided `LHQ` model and external host data.
      * 
-     * This method validates the input `LHQ` model, processes the specified Handlebars template,
-     * and generates the corresponding output files. It also handles inline and child template outputs.
+     * This method validates the input `LHQ` model (schema and semantic rules, see `ModelUtils.validateModelSemantics`),
+     * processes Handlebars template of each code generator declared in model, and generates the corresponding output files. It also handles inline and child template outputs.
+     * Generated files of all code generators are returned in one combined result.
+     * 
+     * When `modelData` is an in-memory root model element (e.g. model being edited in editor), templates are run directly
+     * against it without JSON round trip and without schema and semantic validation (`ModelUtils.validateModelSemantics` is not called),
+     * so caller is responsible to validate such model before generating. Element is recognized by its shape, so elements
+     * created by other copy of this library are accepted too.
      * 
      * @param fileName - The name of the input LHQ model file (*.lhq).
-     * @param modelData - The LHQ model data, either as a deserialized JSON object or a JSON as string.
+     * @param modelData - The LHQ model data, either as a deserialized JSON object, a JSON as string or a root model element.
      * @param data - Optional external host data as a key-value mapping (object or JSON as string) used by the templates.
+     * @param options - Optional code generators to use instead of code generators declared in model.
      * @returns A `GenerateResult` object containing the list of generated files.
      * 
      * @throws `AppError` if the generator is not initialized, or if any required input is missing or invalid.
      * 
      * @example
-     * const generator = new Generator();
-     * Generator.initialize(\{ hbsTemplates: templates, hostEnvironment: hostEnv \});
+     * const generator = new Generator(\{ hbsTemplates: templates, templatesMetadata: metadata, hostEnvironment: hostEnv \});
      * const file = 'model.lhq';
      * const model = fs.readFileSync(file, 'utf8');
      * const data = \{ namespace: 'MyNamespace' \};
      * const result = generator.generate(file, model, data);
      * console.log(result.generatedFiles);
      */
-    public generate(fileName: string, modelData: LhqModel | string, data?: Record<string, unknown> | string): GenerateResult {
-        if (!Generator._initialized) {
-            throw new AppError('Generator not initialized !');
+    public generate(fileName: string, modelData: LhqModel | string | IRootModelElement, data?: Record<string, unknown> | string,
+        options?: GenerateOptions): GenerateResult {
+        const session = this.createSession(fileName, modelData, data, options);
+
+        const steps = this.runSession(session);
+        while (!steps.next().done) {
+            // progress is not reported in synchronous generation
         }
 
+        return { generatedFiles: session.generatedFiles };
+    }
+
+    /**
+     * Asynchronously generates code files based on the provided `LHQ` model and external host data.
+     * 
+     * Works the same as `generate` method, but yields to the event loop after each template run (main or child template),
+     * so host (e.g. VS Code extension host) is not blocked by generating models with many languages.
+     * 
+     * @param fileName - The name of the input LHQ model file (*.lhq).
+     * @param modelData - The LHQ model data, either as a deserialized JSON object, a JSON as string or a root model element.
+     * @param data - Optional external host data as a key-value mapping (object or JSON as string) used by the templates.
+     * @param options - Optional abort signal to cancel generation, callback to report progress of each template run
+     * and code generators to use instead of code generators declared in model.
+     * @returns A promise of `GenerateResult` object containing the list of generated files.
+     * 
+     * @throws `AppError` with kind `AppErrorKinds.generationAborted` when generation was aborted by `options.signal`,
+     * or `AppError` if the generator is not initialized, or if any required input is missing or invalid.
+     * 
+     * @example
+     * const controller = new AbortController();
+     * const result = await generator.generateAsync(file, model, data, \{
+     *     signal: controller.signal,
+     *     onProgress: p =\> console.log(`$\{p.index\}/$\{p.total\}: $\{p.templateId\} $\{p.fileName\}`)
+     * \});
+     */
+    public async generateAsync(fileName: string, modelData: LhqModel | string | IRootModelElement, data?: Record<string, unknown> | string,
+        options?: GenerateAsyncOptions): Promise<GenerateResult> {
+        const signal = options?.signal;
+        const onProgress = options?.onProgress;
+
+        Generator.throwIfAborted(signal);
+        const session = this.createSession(fileName, modelData, data, options);
+
+        for (const progress of this.runSession(session)) {
+            if (onProgress) {
+                onProgress(progress);
+            }
+
+            await yieldToEventLoop();
+            Generator.throwIfAborted(signal);
+        }
+
+        return { generatedFiles: session.generatedFiles };
+    }
+
+    private static throwIfAborted(signal: AbortSignal | undefined): void {
+        if (signal?.aborted === true) {
+            throw new AppError('Generation was aborted !', undefined, AppErrorKinds.generationAborted);
+        }
+    }
+
+    private createSession(fileName: string, modelData: LhqModel | string | IRootModelElement, data: Record<string, unknown> | string | undefined,
+        options: GenerateOptions | undefined): GenerateSession {
+        const context = this.context;
+
         if (isNullOrEmpty(fileName)) {
             throw new AppError('Missing input model file name !');
         }
@@ -129,47 +267,106 @@ export class Generator {
 
         hostData ??= {};
 
-        const validation = validateLhqModel(modelData);
-        if (!validation.success) {
-            throw new AppError(validation.error ?? `Validation failed for file '${fileName}' !`, undefined, AppErrorKinds.invalidModelSchema);
-        }
+        let rootModel: IRootModelElement;
+        if (Generator.isRootModelElement(modelData)) {
+            rootModel = modelData;
+        } else {
+            const validation = validateLhqModel(modelData);
+            if (!validation.success) {
+                throw new AppError(validation.error ?? `Validation failed for file '${fileName}' !`, undefined, AppErrorKinds.invalidModelSchema);
+            }
+
+            const model = validation.model as LhqModel;
+            const semanticErrors = ModelUtils.validateModelSemantics(model).filter(x => x.severity === 'error');
+            if (semanticErrors.length > 0) {
+                const errors = semanticErrors.map(x => `${x.path}: ${x.message}`).join('\n');
+                throw new AppError(`LHQ model '${fileName}' is not valid:\n${errors}`, undefined,
+                    AppErrorKinds.invalidModelSemantics, semanticErrors[0].code);
+            }
 
-        const model = validation.model as LhqModel;
-        const rootModel = new RootModelElement(model, Generator.settingsConvertor);
+            rootModel = new RootModelElement(model, context.settingsConvertor);
+        }
 
-        const templateId = rootModel.codeGenerator?.templateId ?? '';
-        if (isNullOrEmpty(rootModel.codeGenerator) || isNullOrEmpty(templateId)) {
+        const codeGenerators = options?.codeGenerators ?? rootModel.codeGenerators;
+        if (codeGenerators.length === 0 || codeGenerators.some(x => isNullOrEmpty(x.templateId))) {
             throw new AppError(`LHQ model '${fileName}' missing code generator template information !`);
         }
 
-        const validateResult = ModelUtils
-            .getCodeGeneratorSettingsConvertor()
-            .validateSettings(templateId, rootModel.codeGenerator.settings);
+        codeGenerators.forEach(codeGenerator => {
+            const templateId = codeGenerator.templateId;
+            const convertor = context.settingsConvertor;
+            const settingsContext = { modelName: rootModel.name };
+            const validateResults = convertor.validateAllSettings
+                ? convertor.validateAllSettings(templateId, codeGenerator.settings, settingsContext)
+                : [convertor.validateSettings(templateId, codeGenerator.settings, settingsContext)].filter(x => !isNullOrEmpty(x?.error));
+
+            if (validateResults.length > 0) {
+                const errStr = validateResults.map(x => `Validation failed for template ('${templateId}') setting ${x.group}/${x.property}. ` +
+                    (x.error ?? ``)).join('\n');
+                throw new AppError(errStr, undefined,
+                    AppErrorKinds.templateValidationError, validateResults[0].errorCode);
+            }
+        });
+
+        return { rootModel, codeGenerators, hostData, context, generatedFiles: [], outputFiles: new Map(),
+            caseSensitivePaths: options?.caseSensitivePaths ?? false };
+    }
+
+    // model element is recognized by its shape (not by class), so elements created by other copy of this library are accepted too
+    private static isRootModelElement(modelData: LhqModel | string | IRootModelElement): modelData is IRootModelElement {
+        return typeof modelData === 'object' && modelData !== null && 'elementType' in modelData && modelData.elementType === 'model';
+    }
+
+    private *runSession(session: GenerateSession): IterableIterator<GenerateProgress> {
+        for (const codeGenerator of session.codeGenerators) {
+            yield* this.runCodeGenerator(session, codeGenerator);
+        }
+    }
 
-        if (!isNullOrEmpty(validateResult.error)) {
-            const errStr = `Validation failed for template ('${templateId}') setting ${validateResult.group}/${validateResult.property}. ` +
-                (validateResult.error ?? ``);
-            throw new AppError(errStr, undefined,
-                AppErrorKinds.templateValidationError, validateResult.errorCode);
+    private *runCodeGenerator(session: GenerateSession, codeGenerator: ICodeGeneratorElement): IterableIterator<GenerateProgress> {
+        const templateModel = new TemplateRootModel(session.rootModel, codeGenerator, {}, session.hostData, session.context.hostEnv);
+        // temp data could remain on model elements from previous code generator run
+        templateModel.clearModelTempData();
+        try {
+            yield* this.runTemplates(session, codeGenerator, templateModel);
+        } finally {
+            // model could be in-memory model element owned by caller, do not leave template data on it
+            templateModel.clearModelTempData();
         }
+    }
+
+    private *runTemplates(session: GenerateSession, codeGenerator: ICodeGeneratorElement,
+        templateModel: TemplateRootModel): IterableIterator<GenerateProgress> {
+        const templateManager = session.context.templateManager;
+        const templateId = codeGenerator.templateId;
 
         const saveInlineOutputs = (templId: string, inlineOutputs: OutputInlineData[]): void => {
             if (inlineOutputs) {
                 inlineOutputs.forEach(inline => {
-                    this.addResultFile(templId, inline.content, inline);
+                    this.addResultFile(session, templId, inline.content, inline, templateId);
                 });
             }
         }
 
-        const templateModel = new TemplateRootModel(rootModel, {}, hostData);
+        const createProgress = (templId: string, index: number): GenerateProgress => {
+            const lang = templateModel.host['lang'];
+            return {
+                codeGeneratorTemplateId: templateId,
+                templateId: templId,
+                hostLang: typeof lang === 'string' ? lang : undefined,
+                fileName: templateModel.output?.fileName ?? undefined,
+                index,
+                total: templateModel.childOutputs.length + 1
+            };
+        }
 
         // run handlebars template generator
         templateModel.setCurrentTemplateId(templateId);
         try {
-            const templateResult = HbsTemplateManager.runTemplate(templateId, templateModel);
+            const templateResult = templateManager.runTemplate(templateId, templateModel);
 
             const mainOutput = templateModel.output;
-            this.addResultFile(templateId, templateResult, mainOutput);
+            this.addResultFile(session, templateId, templateResult, mainOutput, templateId);
 
             // save inline outputs (of main template) if any
             saveInlineOutputs(templateId, templateModel.inlineOutputs);
@@ -177,33 +374,38 @@ export class Generator {
             templateModel.setCurrentTemplateId(undefined);
         }
 
+        yield createProgress(templateId, 1);
+
         // process child outputs (if any)
-        templateModel.childOutputs.forEach(child => {
+        let index = 1;
+        for (const child of templateModel.childOutputs) {
             templateModel.setAsChildTemplate(child);
 
             // run handlebars template generator
             templateModel.setCurrentTemplateId(child.templateId);
             try {
-                const templateResult = HbsTemplateManager.runTemplate(child.templateId, templateModel);
+                const templateResult = templateManager.runTemplate(child.templateId, templateModel);
 
                 const output = templateModel.output;
                 if (isNullOrEmpty(output)) {
                     throw new AppError(`Template '${child.templateId}' missing main output file information (missing 'm-output' helper) !`);
                 }
 
-                this.addResultFile(child.templateId, templateResult, output);
+                this.addResultFile(session, child.templateId, templateResult, output, templateId);
 
                 // save inline outputs (of child template) if any
                 saveInlineOutputs(child.templateId, templateModel.inlineOutputs);
             } finally {
                 templateModel.setCurrentTemplateId(undefined);
             }
-        });
 
-        return { generatedFiles: this._generatedFiles };
+            index++;
+            yield createProgress(child.templateId, index);
+        }
     }
 
-    private addResultFile(templateId: string, templateResult: string, output: OutputFileData | undefined) {
+    private addResultFile(session: GenerateSession, templateId: string, templateResult: string, output: OutputFileData | undefined,
+        codeGeneratorTemplateId: string) {
         if (isNullOrEmpty(output)) {
             throw new AppError(`Template '${templateId}' missing main output file information (missing 'm-output' helper) !`);
         }
@@ -216,16 +418,68 @@ export class Generator {
             throw new AppError(`Template '${templateId}' missing main output settings (in 'm-output' helper) !`);
         }
 
-        this.addResultFileInternal(templateResult, output.fileName, output.settings);
+        this.addResultFileInternal(session, templateResult, output.fileName, output.settings, codeGeneratorTemplateId, templateId);
     }
 
-    private addResultFileInternal(templateResult: string, fileName: string, settings: CodeGeneratorBasicSettings): void {
+    private addResultFileInternal(session: GenerateSession, templateResult: string, fileName: string, settings: CodeGeneratorBasicSettings,
+        templateId: string, outputTemplateId: string): void {
+        const hostEnv = session.context.hostEnv;
         if (settings.Enabled) {
-            const genFileName = isNullOrEmpty(settings.OutputFolder) ? fileName : Generator.hostEnv.pathCombine(settings.OutputFolder, fileName);
+            const segments = Generator.getOutputPathSegments(settings.OutputFolder, fileName, outputTemplateId);
+
+            const outputPath = segments.join('/');
+            const key = session.caseSensitivePaths ? outputPath : outputPath.toLowerCase();
+            const existingTemplateId = session.outputFiles.get(key);
+            if (existingTemplateId !== undefined) {
+                throw new AppError(`Template '${outputTemplateId}' generates output file '${outputPath}' which was already generated by template '${existingTemplateId}' !`,
+                    undefined, AppErrorKinds.invalidOutputFile, AppErrorCodes.OutputFileDuplicate);
+            }
+            session.outputFiles.set(key, outputTemplateId);
+
+            const genFileName = segments.reduce((path, segment) => hostEnv.pathCombine(path, segment));
             const bom = settings.EncodingWithBOM;
             const lineEndings = settings.LineEndings ?? DefaultCodeGenSettings.LineEndings;
-            const result: GeneratedFile = { fileName: genFileName, content: templateResult, bom, lineEndings };
-            this._generatedFiles.push(result);
+            const result: GeneratedFile = { fileName: genFileName, content: templateResult, bom, lineEndings, templateId };
+            session.generatedFiles.push(result);
         }
     }
+
+    /**
+     * Normalizes output file path (output folder and file name) to path segments relative to output directory.
+     * @throws `AppError` with kind `AppErrorKinds.invalidOutputFile` if path is absolute or escapes output directory.
+     */
+    private static getOutputPathSegments(outputFolder: string | undefined, fileName: string, templateId: string): string[] {
+        const fullPath = isNullOrEmpty(outputFolder) ? fileName : `${outputFolder}/${fileName}`;
+
+        // unix root, windows drive (e.g. 'C:') or UNC path
+        const isAbsolute = (value: string) => /^[\\/]/.test(value) || /^[a-zA-Z]:/.test(value);
+        if (isAbsolute(fileName) || (!isNullOrEmpty(outputFolder) && isAbsolute(outputFolder))) {
+            throw new AppError(`Template '${templateId}' output file '${fullPath}' must be relative path (absolute path is not allowed) !`,
+                undefined, AppErrorKinds.invalidOutputFile, AppErrorCodes.OutputFileAbsolutePath);
+        }
+
+        const segments: string[] = [];
+        for (const segment of fullPath.split(/[\\/]/)) {
+            if (segment === '' || segment === '.') {
+                continue;
+            }
+
+            if (segment === '..') {
+                if (segments.length === 0) {
+                    throw new AppError(`Template '${templateId}' output file '${fullPath}' points outside of output directory !`,
+                        undefined, AppErrorKinds.invalidOutputFile, AppErrorCodes.OutputFileOutsideFolder);
+                }
+                segments.pop();
+            } else {
+                segments.push(segment);
+            }
+        }
+
+        if (segments.length === 0) {
+            throw new AppError(`Template '${templateId}' output file '${fullPath}' does not contain file name !`,
+                undefined, AppErrorKinds.invalidOutputFile);
+        }
+
+        return segments;
+    }
 }
\ No newline at end of file
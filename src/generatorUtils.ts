@@ -3,10 +3,11 @@ import * as zodToJsonSchema from 'zod-to-json-schema';
 import { fromZodError, createMessageBuilder } from 'zod-validation-error';
 
 import { type LhqModel, LhqModelSchema } from './api/schemas';
-import { isNullOrEmpty, updateEOL, tryJsonParse } from './utils';
-import type { LhqValidationResult } from './types';
+import { isNullOrEmpty, updateEOL, tryJsonParse, tryRemoveBOM } from './utils';
+import type { GeneratorTemplates, LhqValidationIssue, LhqValidationResult, TemplateSettingsSchemaOptions } from './types';
+import { AppError } from './AppError';
 import type { GeneratedFile } from './api/types';
-import { type TemplateMetadataValidationResult, templatesMetadataSchema, type TemplatesMetadata } from './api/templates';
+import { type TemplateMetadataDefinition, type TemplateMetadataGroupSettings, type TemplateMetadataSettingValidator, type TemplateMetadataValidationResult, templatesMetadataSchema, type TemplatesMetadata } from './api/templates';
 import { ModelVersions } from './model/modelConst';
 
 declare let PKG_VERSION: string;
@@ -59,30 +60,83 @@ export function validateTemplateMetadata(data: TemplatesMetadata | string): Temp
     return { success, error, metadata: success ? parseResult.data : undefined };
 }
 
+/**
+ * Merges templates (and their metadata) of multiple sources into a single template set.
+ * @param sources - Templates sources to merge, first one is usually built-in templates.
+ * @returns The merged templates with metadata.
+ * @throws `AppError` if some template id or settings group name is defined in more than one source.
+ */
+export function mergeTemplates(...sources: GeneratorTemplates[]): GeneratorTemplates {
+    const result: GeneratorTemplates = {
+        hbsTemplates: {},
+        templatesMetadata: { settings: {}, templates: {} }
+    };
+
+    const { hbsTemplates, templatesMetadata } = result;
+
+    for (const source of sources) {
+        for (const [templateId, content] of Object.entries(source.hbsTemplates ?? {})) {
+            if (Object.prototype.hasOwnProperty.call(hbsTemplates, templateId)) {
+                throw new AppError(`Template '${templateId}' is already defined (template ids must be unique across all templates) !`);
+            }
+
+            hbsTemplates[templateId] = content;
+        }
+
+        for (const [group, groupMetadata] of Object.entries(source.templatesMetadata?.settings ?? {})) {
+            if (Object.prototype.hasOwnProperty.call(templatesMetadata.settings, group)) {
+                throw new AppError(`Settings group '${group}' is already defined (settings group names must be unique across all templates) !`);
+            }
+
+            templatesMetadata.settings[group] = groupMetadata;
+        }
+
+        for (const [templateId, templateMetadata] of Object.entries(source.templatesMetadata?.templates ?? {})) {
+            if (Object.prototype.hasOwnProperty.call(templatesMetadata.templates, templateId)) {
+                throw new AppError(`Metadata for template '${templateId}' is already defined (template ids must be unique across all templates) !`);
+            }
+
+            templatesMetadata.templates[templateId] = templateMetadata;
+        }
+    }
+
+    return result;
+}
+
 /**
  * Validates the specified data (as JSON object or JSON as string) against the defined `LhqModel` schema.
+ * 
+ * All found issues are returned in `issues` list (with JSON path and error code), when data are specified as JSON string,
+ * issues contain also line and column of invalid element in that string.
  * @param data - The data (as JSON object or JSON as string) to validate.
  * @returns The validation result.
  */
 export function validateLhqModel(data: LhqModel | string): LhqValidationResult {
+    let json: string | undefined;
     if (typeof data === 'string') {
-        const parseResult = tryJsonParse(data, true);
+        json = tryRemoveBOM(data);
+        const parseResult = tryJsonParse(json);
 
         if (!parseResult.success) {
-            return { success: false, error: parseResult.error };
+            const error = parseResult.error ?? 'Specified "data" must be an object!';
+            const offset = scanJsonPaths(json).errorOffset;
+            const issue: LhqValidationIssue = { path: '', code: 'json.parseError', severity: 'error', message: error };
+            return { success: false, error, issues: [offset === undefined ? issue : { ...issue, ...getTextPosition(json, offset) }] };
         }
 
         data = parseResult.data as LhqModel;
     }
 
     if (data === undefined || data === null || typeof data !== 'object') {
-        return { success: false, error: 'Specified "data" must be an object!' };
+        const error = 'Specified "data" must be an object!';
+        return { success: false, error, issues: [{ path: '', code: 'model.invalidType', severity: 'error', message: error }] };
     }
 
     const parseResult = LhqModelSchema.safeParse(data);
     let success = parseResult.success && !isNullOrEmpty(parseResult.data);
 
     let error: string | undefined = undefined;
+    const issues: LhqValidationIssue[] = [];
     if (!parseResult.success) {
         const messageBuilder = createMessageBuilder({
             prefix: '',
@@ -91,15 +145,174 @@ export function validateLhqModel(data: LhqModel | string): LhqValidationResult {
         });
         const err = fromZodError(parseResult.error, { messageBuilder });
         error = err.toString();
+
+        parseResult.error.issues.forEach(issue => {
+            // unknown keys are reported on parent object, point directly to (first) unknown key
+            const path = issue.code === 'unrecognized_keys' && issue.keys.length > 0 ? [...issue.path, issue.keys[0]] : issue.path;
+            issues.push({ path: path.join('.'), code: `schema.${issue.code}`, severity: 'error', message: issue.message });
+        });
     }
 
     const model = success ? parseResult.data : undefined;
     if (success && model && model.model && model.model.version > ModelVersions.model) {
         success = false;
         error = 'Model version is newer than the supported version.';
+        issues.push({ path: 'model.version', code: 'model.versionUnsupported', severity: 'error', message: error });
+    }
+
+    if (json !== undefined) {
+        setValidationIssuesPosition(json, issues);
+    }
+
+    return { success, error, model, issues };
+}
+
+/**
+ * Sets line and column (of element on issue path) in source JSON string for all specified validation issues.
+ * @param json - The source JSON string which was validated.
+ * @param issues - The validation issues to update.
+ */
+export function setValidationIssuesPosition(json: string, issues: LhqValidationIssue[]): void {
+    if (issues.length === 0) {
+        return;
+    }
+
+    json = tryRemoveBOM(json);
+    const paths = scanJsonPaths(json).paths;
+    issues.forEach(issue => {
+        const offset = findJsonPathOffset(paths, issue.path);
+        if (offset !== undefined) {
+            Object.assign(issue, getTextPosition(json, offset));
+        }
+    });
+}
+
+// returns offset of element on path or its nearest existing parent
+function findJsonPathOffset(paths: Map<string, number>, path: string): number | undefined {
+    const segments = path === '' ? [] : path.split('.');
+    while (segments.length > 0) {
+        const offset = paths.get(segments.join('.'));
+        if (offset !== undefined) {
+            return offset;
+        }
+        segments.pop();
+    }
+
+    return paths.get('');
+}
+
+function getTextPosition(text: string, offset: number): { line: number; column: number } {
+    const before = text.substring(0, offset);
+    const lastNewLine = before.lastIndexOf('\n');
+    return { line: before.split('\n').length, column: offset - lastNewLine };
+}
+
+/**
+ * Scans JSON text and collects offsets of all elements (property names for object properties, values for array items).
+ * Keys of `paths` map are property names and array indexes joined by dot (root element has empty key).
+ * When text is not valid JSON, `errorOffset` contains offset where scanning failed.
+ */
+function scanJsonPaths(text: string): { paths: Map<string, number>; errorOffset?: number } {
+    const paths = new Map<string, number>();
+    let pos = 0;
+
+    const fail = (): never => {
+        throw new RangeError(`Unexpected character at ${pos}`);
+    };
+
+    const skipWhitespace = () => {
+        while (pos < text.length && ' \t\r\n'.includes(text[pos])) {
+            pos++;
+        }
+    };
+
+    const scanString = (): string => {
+        const start = pos;
+        pos++;
+        while (pos < text.length && text[pos] !== '"') {
+            pos += text[pos] === '\\' ? 2 : 1;
+        }
+
+        if (pos >= text.length) {
+            fail();
+        }
+
+        pos++;
+        return JSON.parse(text.substring(start, pos)) as string;
+    };
+
+    const scanValue = (path: string[]) => {
+        skipWhitespace();
+        const key = path.join('.');
+        if (!paths.has(key)) {
+            paths.set(key, pos);
+        }
+
+        const ch = text[pos];
+        if (ch === '{' || ch === '[') {
+            const isObject = ch === '{';
+            const end = isObject ? '}' : ']';
+            pos++;
+            skipWhitespace();
+            if (text[pos] === end) {
+                pos++;
+                return;
+            }
+
+            for (let index = 0; ; index++) {
+                skipWhitespace();
+                if (isObject) {
+                    if (text[pos] !== '"') {
+                        fail();
+                    }
+                    const keyOffset = pos;
+                    const name = scanString();
+                    paths.set([...path, name].join('.'), keyOffset);
+                    skipWhitespace();
+                    if (text[pos] !== ':') {
+                        fail();
+                    }
+                    pos++;
+                    scanValue([...path, name]);
+                } else {
+                    scanValue([...path, index.toString()]);
+                }
+
+                skipWhitespace();
+                if (text[pos] === ',') {
+                    pos++;
+                } else if (text[pos] === end) {
+                    pos++;
+                    return;
+                } else {
+                    fail();
+                }
+            }
+        } else if (ch === '"') {
+            scanString();
+        } else {
+            const start = pos;
+            while (pos < text.length && !',}] \t\r\n'.includes(text[pos])) {
+                pos++;
+            }
+
+            if (start === pos) {
+                fail();
+            }
+        }
+    };
+
+    try {
+        scanValue([]);
+        skipWhitespace();
+        if (pos < text.length) {
+            fail();
+        }
+    } catch {
+        return { paths, errorOffset: Math.min(pos, text.length) };
     }
 
-    return { success, error, model };
+    return { paths };
 }
 
 /**
@@ -128,4 +341,175 @@ export function generateLhqSchema(): string {
     });
 
     return JSON.stringify(jsonSchema, null, 2);
+}
+
+/**
+ * Generates the JSON schema (as string) for code generator settings of specific template,
+ * describing settings groups (e.g. 'CSharp') and their properties with types, defaults, list values and validators.
+ * By default schema describes settings object, with option `metadataNode` it describes `content` node of `metadatas` node in LHQ file.
+ * @param definition - Template metadata definition (e.g. from `HbsTemplateManager.getTemplateDefinition`).
+ * @param options - Optional schema generation options.
+ * @returns The JSON schema as a string.
+ */
+export function generateTemplateSettingsSchema(definition: TemplateMetadataDefinition, options?: TemplateSettingsSchemaOptions): string {
+    if (isNullOrEmpty(definition)) {
+        throw new AppError('Template definition cannot be null or empty.');
+    }
+
+    const metadataNode = options?.metadataNode ?? false;
+    const stringValues = metadataNode || (options?.stringValues ?? false);
+    const groups: Record<string, Record<string, unknown>> = {};
+
+    for (const [group, groupDefinition] of Object.entries(definition.settings)) {
+        const properties: Record<string, unknown> = {};
+        groupDefinition.properties.forEach(property => {
+            properties[property.name] = getSettingPropertySchema(property, stringValues);
+        });
+
+        groups[group] = {
+            type: 'object',
+            title: groupDefinition.displayName,
+            description: groupDefinition.description,
+            properties,
+            additionalProperties: false
+        };
+    }
+
+    const jsonSchema = {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        $id: `${definition.id}.${metadataNode ? 'metadata' : 'settings'}`,
+        title: definition.displayName,
+        description: definition.description,
+        ...(metadataNode ? getMetadataNodeSchema(definition.id, groups) : { type: 'object', properties: groups, additionalProperties: false })
+    };
+
+    return JSON.stringify(jsonSchema, null, 2);
+}
+
+// schema of 'content' node (in 'metadatas' node of LHQ file) with settings groups as child nodes of 'Settings' node, eg:
+// { name: 'content', attrs: { templateId }, childs: [{ name: 'Settings', childs: [{ name: 'CSharp', attrs: { ... } }] }] }
+function getMetadataNodeSchema(templateId: string, groups: Record<string, Record<string, unknown>>): Record<string, unknown> {
+    const groupNodes = Object.entries(groups).map(([group, groupSchema]) => {
+        const { title, description, properties, ...attrsSchema } = groupSchema;
+        // attributes with null value are allowed in LHQ file (setting default value is used)
+        const attrProperties = Object.fromEntries(Object.entries(properties as Record<string, Record<string, unknown>>)
+            .map(([name, { title, description, ...propertySchema }]) => [name, { title, description, anyOf: [propertySchema, { type: 'null' }] }]));
+        const attrs = { ...attrsSchema, properties: attrProperties };
+        return {
+            type: 'object',
+            title,
+            description,
+            properties: { name: { const: group }, attrs },
+            required: ['name']
+        };
+    });
+
+    const settingsNode = {
+        type: 'object',
+        properties: {
+            name: { const: 'Settings' },
+            childs: { type: 'array', items: { oneOf: groupNodes } }
+        },
+        required: ['name']
+    };
+
+    return {
+        type: 'object',
+        properties: {
+            name: { const: 'content' },
+            attrs: {
+                type: 'object',
+                properties: {
+                    templateId: { const: templateId },
+                    version: { type: 'string', pattern: '^\\d+$' }
+                },
+                required: ['templateId']
+            },
+            childs: { type: 'array', items: settingsNode }
+        },
+        required: ['name', 'attrs']
+    };
+}
+
+function getSettingPropertySchema(property: TemplateMetadataGroupSettings, stringValues: boolean): Record<string, unknown> {
+    const schema: Record<string, unknown> = {
+        title: property.displayName,
+        description: property.description
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-base-to-string
+    const toValue = (value: unknown): unknown => stringValues && value !== null && value !== undefined ? String(value) : value;
+
+    switch (property.type) {
+        case 'boolean':
+            Object.assign(schema, stringValues ? { type: 'string', enum: ['true', 'false'] } : { type: 'boolean' });
+            break;
+        case 'number':
+            Object.assign(schema, stringValues ? { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$' } : { type: 'number' });
+            break;
+        case 'list':
+            schema.type = 'string';
+            if (Array.isArray(property.values)) {
+                schema.enum = property.values.map(x => x.value);
+            }
+            break;
+        default:
+            schema.type = 'string';
+            if (property.required && property.requiredWhen === undefined) {
+                schema.minLength = 1;
+            }
+            break;
+    }
+
+    if (property.default !== undefined && property.default !== null) {
+        schema.default = toValue(property.default);
+    }
+
+    const validators = (property.validators ?? [])
+        .map(validator => getSettingValidatorSchema(validator, property.type === 'number' && !stringValues, toValue))
+        .filter(x => Object.keys(x).length > 0);
+
+    if (validators.length > 0) {
+        schema.allOf = validators;
+    }
+
+    return schema;
+}
+
+function getSettingValidatorSchema(validator: TemplateMetadataSettingValidator, numeric: boolean, toValue: (value: unknown) => unknown): Record<string, unknown> {
+    const schema: Record<string, unknown> = {};
+
+    // JSON schema 'pattern' does not support regex flags
+    if (validator.regex !== undefined && isNullOrEmpty(validator.flags)) {
+        schema.pattern = validator.regex;
+    }
+
+    if (numeric) {
+        if (validator.min !== undefined) {
+            schema.minimum = validator.min;
+        }
+
+        if (validator.max !== undefined) {
+            schema.maximum = validator.max;
+        }
+    }
+
+    if (validator.minLength !== undefined) {
+        schema.minLength = validator.minLength;
+    }
+
+    if (validator.maxLength !== undefined) {
+        schema.maxLength = validator.maxLength;
+    }
+
+    if (validator.allowedValues !== undefined) {
+        schema.enum = validator.allowedValues.map(toValue);
+    }
+
+    // error of validator is kept as annotation only (JSON schema has no standard keyword for custom error message)
+    if (Object.keys(schema).length > 0) {
+        schema.description = validator.error;
+    }
+
+    return schema;
 }
\ No newline at end of file
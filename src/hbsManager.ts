@@ -1,26 +1,42 @@
 /* eslint-disable no-prototype-builtins */
 import Handlebars from 'handlebars';
 import { AppError } from './AppError';
-import { getKnownHelpers } from './helpers';
-import type { HbsTemplatesData } from './types';
+import { createCustomHelpers, getKnownHelpers, registerHelpers } from './helpers';
+import type { CustomHelpers, HbsTemplatesData } from './types';
 import { isNullOrEmpty } from './utils';
-import { type TemplateMetadataDefinition, type TemplatesMetadata } from './api/templates';
+import { type TemplateMetadataDefinition, type TemplateMetadataGroup, type TemplatesMetadata } from './api/templates';
 import { validateTemplateMetadata } from './generatorUtils';
 
+/**
+ * Manages handlebars templates and their metadata definitions.
+ *
+ * Each instance owns its private handlebars environment (created by `Handlebars.create()`) with registered helpers,
+ * so multiple instances (with different templates) can live side by side.
+ *
+ * Static methods works on default instance which is created by `HbsTemplateManager.init` method.
+ */
 export class HbsTemplateManager {
-    private static _initialized = false;
-    private static _sources: HbsTemplatesData;
-    private static _metadata: TemplatesMetadata;
+    private static _default: HbsTemplateManager | undefined;
+
+    private readonly _handlebars: typeof Handlebars;
+    private readonly _sources: HbsTemplatesData;
+    private readonly _metadata: TemplatesMetadata;
     // key - templateId, value - template metadata definition
-    private static _definitions: Record<string, TemplateMetadataDefinition>;
+    private readonly _definitions: Record<string, TemplateMetadataDefinition>;
+    private readonly _knownHelpers: KnownHelpers;
 
-    private static _compiled: {
+    private readonly _compiled: {
         [templateId: string]: HandlebarsTemplateDelegate;
-    };
-
-    public static init(data: HbsTemplatesData, metadata: TemplatesMetadata): void {
-        HbsTemplateManager._initialized = false;
+    } = {};
 
+    /**
+     * Creates new template manager instance with its own handlebars environment.
+     * @param data - Handlebars templates, where each key represents 'templateId' and value represents template content.
+     * @param metadata - Metadata of templates, including settings and templates definitions.
+     * @param customHelpers - Optional custom helpers registered in addition to built-in helpers.
+     * @throws Error if templates data or metadata are missing or invalid, or custom helpers clashes with built-in helpers.
+     */
+    constructor(data: HbsTemplatesData, metadata: TemplatesMetadata, customHelpers?: CustomHelpers) {
         if (isNullOrEmpty(data)) {
             throw new Error('Missing templates data !');
         }
@@ -56,6 +72,8 @@ export class HbsTemplateManager {
             throw new Error(`Some templates defined in metadata does not have corresponding template file (*.hbs): ${missingTemplates.join(', ')}`);
         }
 
+        const groups = HbsTemplateManager.resolveSettingsGroups(metadata.settings);
+
         // key - templateId, value - template metadata definition
         const definitions: Record<string, TemplateMetadataDefinition> = {};
         for (const templateId of metadataTemplateIds) {
@@ -64,10 +82,18 @@ export class HbsTemplateManager {
                 throw new Error(`Template metadata for '${templateId}' not found in metadata !`);
             }
 
+            const version = templateMetadata.version ?? 1;
+            const invalidMigration = templateMetadata.migrations?.find(x => x.version > version);
+            if (invalidMigration) {
+                throw new AppError(`Template '${templateId}' has migration to version ${invalidMigration.version} which is newer than template version ${version} !`);
+            }
+
             definitions[templateId] = {
                 id: templateId,
                 displayName: templateMetadata.displayName,
                 description: templateMetadata.description,
+                version,
+                migrations: templateMetadata.migrations,
                 settings: {}
             };
 
@@ -78,62 +104,149 @@ export class HbsTemplateManager {
                 // where "CSharpWinForms" is the group name points to "settings.CSharpWinForms" but for whole app it will be aliased as "CSharp" name.
                 if (group.indexOf(':') > -1) {
                     const [groupName, alias] = group.split(':');
-                    definitions[templateId].settings[alias] = metadata.settings[groupName] || {};
+                    definitions[templateId].settings[alias] = groups[groupName] || {};
                 } else {
-                    definitions[templateId].settings[group] = metadata.settings[group] || {};
+                    definitions[templateId].settings[group] = groups[group] || {};
                 }
             }
         }
 
-        HbsTemplateManager._sources = data;
-        HbsTemplateManager._metadata = metadata;
-        HbsTemplateManager._definitions = definitions;
+        this._sources = data;
+        this._metadata = metadata;
+        this._definitions = definitions;
 
-        HbsTemplateManager._initialized = true;
+        this._handlebars = Handlebars.create();
+        registerHelpers(this._handlebars);
+
+        const helpers = customHelpers ? createCustomHelpers(customHelpers) : {};
+        this._handlebars.registerHelper(helpers);
+        this._knownHelpers = { ...getKnownHelpers(), ...Object.fromEntries(Object.keys(helpers).map(key => [key, true])) };
     }
 
-    private static checkInitialized(): void {
-        if (!HbsTemplateManager._initialized) {
+    /**
+     * Resolves settings groups inheritance (field `extends`), so each returned group contains all (inherited and own) properties.
+     * @param settings - Settings groups from templates metadata, where key is the group name.
+     * @returns Resolved settings groups (without `extends` field), where key is the group name.
+     * @throws AppError if base group does not exist or groups inheritance contains cycle.
+     */
+    private static resolveSettingsGroups(settings: Record<string, TemplateMetadataGroup>): Record<string, TemplateMetadataGroup> {
+        const resolved: Record<string, TemplateMetadataGroup> = {};
+
+        const resolve = (name: string, chain: string[]): TemplateMetadataGroup => {
+            if (resolved.hasOwnProperty(name)) {
+                return resolved[name];
+            }
+
+            if (chain.includes(name)) {
+                throw new AppError(`Settings group '${name}' has circular inheritance (${[...chain, name].join(' -> ')}) !`);
+            }
+
+            const { extends: baseName, ...group } = settings[name];
+            if (baseName !== undefined) {
+                if (!settings.hasOwnProperty(baseName)) {
+                    throw new AppError(`Settings group '${name}' extends unknown settings group '${baseName}' !`);
+                }
+
+                const properties = [...resolve(baseName, [...chain, name]).properties];
+                for (const property of group.properties) {
+                    const index = properties.findIndex(x => x.name === property.name);
+                    if (index > -1) {
+                        properties[index] = property;
+                    } else {
+                        properties.push(property);
+                    }
+                }
+
+                group.properties = properties;
+            }
+
+            resolved[name] = group;
+            return group;
+        };
+
+        Object.keys(settings).forEach(name => resolve(name, []));
+        return resolved;
+    }
+
+    /**
+     * Initializes default template manager instance (used by static methods), replaces previous default instance if any.
+     * @param data - Handlebars templates, where each key represents 'templateId' and value represents template content.
+     * @param metadata - Metadata of templates, including settings and templates definitions.
+     * @param customHelpers - Optional custom helpers registered in addition to built-in helpers.
+     * @returns The new default template manager instance.
+     */
+    public static init(data: HbsTemplatesData, metadata: TemplatesMetadata, customHelpers?: CustomHelpers): HbsTemplateManager {
+        HbsTemplateManager._default = undefined;
+        HbsTemplateManager._default = new HbsTemplateManager(data, metadata, customHelpers);
+        return HbsTemplateManager._default;
+    }
+
+    /**
+     * Returns default template manager instance.
+     * @throws Error if default instance was not initialized yet (see `HbsTemplateManager.init`).
+     */
+    public static get default(): HbsTemplateManager {
+        if (HbsTemplateManager._default === undefined) {
             throw new Error('HbsTemplateManager is not initialized !');
         }
+
+        return HbsTemplateManager._default;
     }
 
     public static hasTemplate(templateId: string): boolean {
-        HbsTemplateManager.checkInitialized();
-        return HbsTemplateManager._sources.hasOwnProperty(templateId);
+        return HbsTemplateManager.default.hasTemplate(templateId);
     }
 
     public static getTemplateDefinitions(): Record<string, TemplateMetadataDefinition> {
-        HbsTemplateManager.checkInitialized();
-        return HbsTemplateManager._definitions;
+        return HbsTemplateManager.default.getTemplateDefinitions();
     }
 
     public static getTemplateDefinition(templateId: string): TemplateMetadataDefinition | undefined {
-        HbsTemplateManager.checkInitialized();
-        if (!HbsTemplateManager._definitions.hasOwnProperty(templateId)) {
+        return HbsTemplateManager.default.getTemplateDefinition(templateId);
+    }
+
+    public static runTemplate(templateId: string, data: unknown): string {
+        return HbsTemplateManager.default.runTemplate(templateId, data);
+    }
+
+    /**
+     * Metadata of templates which this instance was created with.
+     */
+    public get metadata(): Readonly<TemplatesMetadata> {
+        return this._metadata;
+    }
+
+    public hasTemplate(templateId: string): boolean {
+        return this._sources.hasOwnProperty(templateId);
+    }
+
+    public getTemplateDefinitions(): Record<string, TemplateMetadataDefinition> {
+        return this._definitions;
+    }
+
+    public getTemplateDefinition(templateId: string): TemplateMetadataDefinition | undefined {
+        if (!this._definitions.hasOwnProperty(templateId)) {
             return undefined;
         }
-        return HbsTemplateManager._definitions[templateId];
+        return this._definitions[templateId];
     }
 
-    public static runTemplate(templateId: string, data: unknown): string {
-        HbsTemplateManager.checkInitialized();
+    public runTemplate(templateId: string, data: unknown): string {
         let compiled: HandlebarsTemplateDelegate;
 
-        HbsTemplateManager._compiled ??= {};
-        if (!HbsTemplateManager._compiled.hasOwnProperty(templateId)) {
-            if (!HbsTemplateManager._sources.hasOwnProperty(templateId)) {
-                const allTemplates = Object.keys(HbsTemplateManager._sources).join(', ');
+        if (!this._compiled.hasOwnProperty(templateId)) {
+            if (!this._sources.hasOwnProperty(templateId)) {
+                const allTemplates = Object.keys(this._sources).join(', ');
 
                 throw new AppError(`Template with id '${templateId}' not found (available templates: ${allTemplates})!`);
             }
 
-            const source = HbsTemplateManager._sources[templateId];
-            compiled = Handlebars.compile(source, { knownHelpers: getKnownHelpers() });
+            const source = this._sources[templateId];
+            compiled = this._handlebars.compile(source, { knownHelpers: this._knownHelpers });
 
-            HbsTemplateManager._compiled[templateId] = compiled;
+            this._compiled[templateId] = compiled;
         } else {
-            compiled = HbsTemplateManager._compiled[templateId];
+            compiled = this._compiled[templateId];
         }
 
         const result = compiled(data, {
@@ -1,6 +1,7 @@
-import Handlebars, { type HelperDelegate } from 'handlebars';
+import Handlebars, { type HelperDelegate, type HelperOptions } from 'handlebars';
 
 import {
+    changeCase,
     hasItems,
     isNullOrEmpty,
     isNullOrUndefined,
@@ -12,22 +13,24 @@ import {
     sortBy,
     sortObjectByKey,
     textEncode,
+    toIdentifier,
     valueOrDefault,
 } from './utils';
 
 import { AppError, AppErrorKinds } from './AppError';
-import { TreeElement, TreeElementBase } from './model/treeElement';
+import { isTreeElement } from './model/treeElement';
 import { type OutputFileData, type OutputInlineData, TemplateRootModel } from './model/templateRootModel';
 import { DefaultCodeGenSettings } from './model/modelConst';
 import type { CodeGeneratorBasicSettings } from './api/modelTypes';
-import type { IHostEnvironment, KeysMatching, TextEncodeModes } from './types';
+import type { CustomHelpers, KeysMatching, TextCase, TextEncodeModes } from './types';
 
-let hostEnv: IHostEnvironment = undefined!;
-
-export function registerHelpers(hostEnvironment: IHostEnvironment): void {
-    hostEnv = hostEnvironment;
+/**
+ * Registers all built-in helpers into given handlebars environment.
+ * @param handlebars - Handlebars environment (created by `Handlebars.create()`) to register helpers into.
+ */
+export function registerHelpers(handlebars: typeof Handlebars): void {
     Object.keys(helpersList).forEach(key => {
-        Handlebars.registerHelper(key, helpersList[key]);
+        handlebars.registerHelper(key, helpersList[key]);
     });
 }
 
@@ -53,6 +56,8 @@ const helpersList: Record<string, HelperDelegate> = {
     'x-objCount': objCountHelper,
     'x-hasItems': hasItemsHelper,
     'x-textEncode': textEncodeHelper,
+    'x-case': caseHelper,
+    'x-identifier': identifierHelper,
     // 'x-host-webHtmlEncode': hostWebHtmlEncodeHelper,
     'x-render': renderHelper,
     'x-test': testHelper,
@@ -83,6 +88,51 @@ export function getKnownHelpers(): KnownHelpers {
     return _knownHelpers;
 }
 
+const regexCustomHelperPrefix = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+const regexCustomHelperName = /^[a-zA-Z][\w-]*$/;
+
+/**
+ * Creates handlebars helpers from custom (user supplied) helpers, each helper is named as `<prefix>-<name>`.
+ * @param customHelpers - Custom helpers with their name prefix.
+ * @returns Handlebars helpers, where each key represents full helper name (with prefix).
+ * @throws AppError if prefix or helper name is invalid or clashes with built-in helpers.
+ */
+export function createCustomHelpers(customHelpers: CustomHelpers): Record<string, HelperDelegate> {
+    const { prefix, helpers } = customHelpers;
+    if (isNullOrEmpty(prefix) || !regexCustomHelperPrefix.test(prefix)) {
+        throw new AppError(`Custom helpers prefix '${prefix ?? ''}' is not valid (must start with letter and contain only letters, digits or underscore) !`);
+    }
+
+    const reservedPrefixes = [...new Set(Object.keys(helpersList).filter(x => x.includes('-')).map(x => x.split('-')[0]))];
+    if (reservedPrefixes.includes(prefix)) {
+        throw new AppError(`Custom helpers prefix '${prefix}' clashes with built-in helpers (reserved prefixes: ${reservedPrefixes.join(', ')}) !`);
+    }
+
+    const result: Record<string, HelperDelegate> = {};
+    Object.entries(helpers ?? {}).forEach(([name, helper]) => {
+        const fullName = `${prefix}-${name}`;
+        if (!regexCustomHelperName.test(name)) {
+            throw new AppError(`Custom helper '${fullName}' has invalid name (must start with letter and contain only letters, digits, underscore or dash) !`);
+        }
+
+        if (Object.prototype.hasOwnProperty.call(helpersList, fullName) || Object.prototype.hasOwnProperty.call(Handlebars.helpers, fullName)) {
+            throw new AppError(`Custom helper '${fullName}' clashes with built-in helper !`);
+        }
+
+        if (typeof helper !== 'function') {
+            throw new AppError(`Custom helper '${fullName}' must be a function !`);
+        }
+
+        result[fullName] = function (this: unknown, ...args: unknown[]) {
+            const options = args.pop() as HelperOptions;
+            const root = getRoot(options);
+            return helper({ root, hostEnvironment: root.hostEnvironment, context: this, hash: (options.hash ?? {}) as Record<string, unknown>, options }, ...args);
+        };
+    });
+
+    return result;
+}
+
 type AssertTypeCheck = 'disabled' | 'isTrue' | 'isFalse' | 'isNullOrEmpty' | 'isNullOrUndefined' | 'isNull' | 'isUndefined';
 
 type HbsDataContext<T = Record<string, unknown>> = {
@@ -177,8 +227,8 @@ function queryObjValue(context: unknown, options: HbsDataContext<queryObjType>,
     if (!isNullOrEmpty(query) && typeof query === 'string' && !isNullOrEmpty(context)) {
         try {
             if (debug) {
-                const json = context instanceof TreeElementBase ? context.debugSerialize() : JSON.stringify(context);
-                hostEnv.debugLog(`jmespath query: ${query} on context: ${json}`);
+                const json = isTreeElement(context) ? context.debugSerialize() : JSON.stringify(context);
+                getRoot(options).hostEnvironment.debugLog(`jmespath query: ${query} on context: ${json}`);
             }
 
             value = jsonQuery(context, query);
@@ -325,12 +375,12 @@ function replaceHelper(value: string, options: HbsDataContext<replaceHelperArgs>
     return value.replace(regex, withStr);
 }
 
-function trimEndHelper(input: string, endPattern: string): string {
+function trimEndHelper(input: string, endPattern: string, options: HbsDataContext): string {
     try {
         const regex = new RegExp(endPattern + '$');
         return input.replace(regex, '');
     } catch (error) {
-        hostEnv.debugLog('Invalid regex pattern:' + endPattern);
+        getRoot(options).hostEnvironment.debugLog('Invalid regex pattern:' + endPattern);
         return input;
     }
 }
@@ -428,6 +478,29 @@ export function textEncodeHelper(input: string, options: HbsDataContext<textEnco
     return new Handlebars.SafeString(s);
 }
 
+const textCases: TextCase[] = ['original', 'camel', 'pascal', 'snake', 'kebab', 'screaming'];
+
+type caseHelperArgs = {
+    case?: TextCase;
+}
+
+function getTextCase(options: HbsDataContext<caseHelperArgs>, defaultCase?: TextCase): TextCase {
+    const textCase = valueOrDefault<TextCase | undefined>(options?.hash?.case, defaultCase);
+    if (textCase === undefined || !textCases.includes(textCase)) {
+        throw new AppError(`Helper '${options?.name}' has invalid hash param 'case' (${textCase ?? 'missing'}), allowed values: ${textCases.join(', ')} !`);
+    }
+
+    return textCase;
+}
+
+function caseHelper(input: string, options: HbsDataContext<caseHelperArgs>): string {
+    return changeCase(input, getTextCase(options));
+}
+
+function identifierHelper(input: string, options: HbsDataContext<caseHelperArgs>): string {
+    return toIdentifier(input, getTextCase(options, 'original'));
+}
+
 type renderHelperArgs = {
     when?: boolean;
 }
@@ -479,7 +552,8 @@ function callFunctionHelper(fn: Function, ...args: unknown[]): unknown {
 }
 
 function debugLogHelper(...args: unknown[]): string {
-    hostEnv.debugLog(args.join(' '));
+    const options = args.pop() as HbsDataContext;
+    getRoot(options).hostEnvironment.debugLog(args.join(' '));
     return '';
 }
 
@@ -577,12 +651,12 @@ function setCustomData(context: unknown, options: HbsDataContext, valueOrFn: ()
         if (forceToRoot) {
             const root = getRoot(options);
             root.addToTempData(key, value);
-        } else if (context instanceof TreeElement) {
+        } else if (isTreeElement(context)) {
             context.addToTempData(key, value);
         } else if (context instanceof TemplateRootModel) {
             context.addToTempData(key, value);
         } else {
-            hostEnv.debugLog(`[setCustomData] unknown context: ${typeof context} for key '${key}' !`);
+            getRoot(options).hostEnvironment.debugLog(`[setCustomData] unknown context: ${typeof context} for key '${key}' !`);
         }
     }
 }
@@ -616,7 +690,7 @@ function modelOutputHelper() {
 
     const fileName = options?.hash?.fileName ?? '';
 
-    const settingsNode = context.model.codeGenerator?.settings;
+    const settingsNode = context.codeGenerator.settings;
     const settingsObj = options.hash?.settings ?? queryObjValue(settingsNode, options, modelOutputFlags);
 
     let outputFile: OutputFileData = context.output!;
@@ -712,7 +786,7 @@ function modelOutputInlineHelper() {
         throw new AppError(`Helper '${options.name}' can be only use as block helper (value must be child of '${options.name}' begin/end tags) !`);
     }
 
-    const settingsNode = context.model.codeGenerator?.settings;
+    const settingsNode = context.codeGenerator.settings;
     let settingsObj = options.hash?.settings ?? queryObjValue(settingsNode, options, modelOutputInlineFlags);
 
     if (isNullOrEmpty(settingsObj)) {
@@ -6,9 +6,12 @@ export * as modelConst from './model/modelConst'
 export * from './generator';
 export * as generatorUtils from './generatorUtils';
 export * as namespaceUtils from './namespaceUtils';
+export * as csProjectUtils from './csProjectUtils';
+export { MsBuildPropertyEvaluator, importsParentDirectoryBuildProps, type MsBuildExpandResult } from './msbuildEvaluator';
 export * as fileUtils from './fileUtils';
 export * from './utils';
 export * from './types';
 export * from './api/index';
 
-export { HbsTemplateManager } from './hbsManager';
\ No newline at end of file
+export { HbsTemplateManager } from './hbsManager';
+export type { TemplateRootModel } from './model/templateRootModel';
\ No newline at end of file
@@ -6,6 +6,9 @@ export const ModelVersions: ModelVersionsType = Object.freeze<ModelVersionsType>
     codeGenerator: 1
 })
 
+// UID of 'metadata' node (in model 'metadatas') which contains code generators settings
+export const CodeGenUID = 'b40c8a1d-23b7-4f78-991b-c24898596dd2';
+
 export const DefaultLineEndings: LhqModelLineEndings = 'LF';
 
 export const DefaultCodeGenSettings: CodeGeneratorBasicSettings = {
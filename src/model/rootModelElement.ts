@@ -3,15 +3,19 @@ import type { LhqModelDataNode, LhqModelProperties } from '../api/schemas';
 import { LhqModelUidSchema, type LhqCodeGenVersion, type LhqModel, type LhqModelMetadata, type LhqModelOptions, type LhqModelUid, type LhqModelVersion } from '../api/schemas';
 import type { ICategoryLikeTreeElement, ICodeGeneratorElement, ICodeGeneratorSettingsConvertor, IRootModelElement, IterateTreeCallback, IterateTreeOptions, ITreeElement, TreeElementType } from '../api/modelTypes';
 import { isNullOrEmpty, isNullOrUndefined, strCompare } from '../utils';
-import { ModelVersions } from './modelConst';
+import { CodeGenUID, ModelVersions } from './modelConst';
 import { CategoryElement } from './categoryElement';
 import { ResourceElement } from './resourceElement';
 import type { MapToModelOptions } from './types';
 
-const CodeGenUID = 'b40c8a1d-23b7-4f78-991b-c24898596dd2';
-
 const defaultModelOptions: LhqModelOptions = { categories: true, resources: 'All' };
 
+// 'content' node holding code generator (nodes without template id or settings are skipped and left untouched)
+function isCodeGeneratorContentNode(node: LhqModelDataNode): boolean {
+    return node.name === 'content' && !isNullOrEmpty(node.attrs?.['templateId']) &&
+        (node.childs?.some(x => x.name === 'Settings' && (x.childs?.length ?? 0) > 0) ?? false);
+}
+
 export class RootModelElement extends CategoryLikeTreeElement<LhqModel> implements IRootModelElement {
     private _uid: LhqModelUid = LhqModelUidSchema.value;
     private _version: LhqModelVersion = ModelVersions.model;
@@ -19,7 +23,7 @@ export class RootModelElement extends CategoryLikeTreeElement<LhqModel> implemen
     private _primaryLanguage: string | undefined;
     private _languages: string[] = [];
     private _metadatas: Readonly<LhqModelMetadata> | undefined;
-    private _codeGenerator: ICodeGeneratorElement | undefined;
+    private _codeGenerators: ICodeGeneratorElement[] = [];
     private _hasLanguages = true;
     private _codeGenSettingsConvertor: ICodeGeneratorSettingsConvertor;
 
@@ -37,6 +41,13 @@ export class RootModelElement extends CategoryLikeTreeElement<LhqModel> implemen
         this.populate(model);
     }
 
+    /**
+     * Settings convertor which this root element was created with.
+     */
+    public get codeGenSettingsConvertor(): ICodeGeneratorSettingsConvertor {
+        return this._codeGenSettingsConvertor;
+    }
+
     protected internalToJson(obj: Record<string, unknown>, options?: { includeData?: boolean; }): void {
         super.internalToJson(obj, options);
         obj.uid = this.uid ?? LhqModelUidSchema.value;
@@ -65,7 +76,7 @@ export class RootModelElement extends CategoryLikeTreeElement<LhqModel> implemen
             this._primaryLanguage = model.model.primaryLanguage;
             this._hasLanguages = this._languages.length > 0;
             this._metadatas = model.metadatas ? Object.freeze({ ...model.metadatas }) : undefined;
-            this._codeGenerator = this.getCodeGenerator(model);
+            this._codeGenerators = this.getCodeGenerators(model);
             this._description = model.model.description;
         } else {
             this._uid = LhqModelUidSchema.value;
@@ -105,44 +116,43 @@ export class RootModelElement extends CategoryLikeTreeElement<LhqModel> implemen
         return new CategoryElement(root, name, parent);
     }
 
-    private getCodeGenerator(model: LhqModel): ICodeGeneratorElement | undefined {
-        let templateId: string | null | undefined = '';
-        let codeGenVersion: LhqCodeGenVersion = 1;
-        let node = model.metadatas?.childs?.find(x => x.name === 'metadata' && x.attrs?.['descriptorUID'] === CodeGenUID);
-        if (node) {
-            node = node.childs?.find(x => x.name === 'content' && x.attrs?.['templateId'] !== undefined);
-            if (node) {
-                templateId = node.attrs!['templateId'];
-                const version = node.attrs!['version'];
-                if (!isNullOrEmpty(version)) {
-                    const versionInt = parseInt(version);
-                    if (versionInt > 0 && versionInt <= ModelVersions.codeGenerator) {
-                        codeGenVersion = versionInt as LhqCodeGenVersion;
-                    }
+    private getCodeGenerators(model: LhqModel): ICodeGeneratorElement[] {
+        const result: ICodeGeneratorElement[] = [];
+        const metadataNode = model.metadatas?.childs?.find(x => x.name === 'metadata' && x.attrs?.['descriptorUID'] === CodeGenUID);
+        const contentNodes = metadataNode?.childs?.filter(isCodeGeneratorContentNode) ?? [];
+
+        for (const contentNode of contentNodes) {
+            const templateId = contentNode.attrs!['templateId'];
+            let codeGenVersion: LhqCodeGenVersion = ModelVersions.codeGenerator;
+            const version = contentNode.attrs!['version'];
+            if (!isNullOrEmpty(version)) {
+                const versionInt = parseInt(version);
+                if (versionInt > 0) {
+                    codeGenVersion = versionInt;
                 }
-                node = node.childs?.find(x => x.name === 'Settings' && (x.childs?.length ?? 0) > 0);
             }
-        }
 
-        if (!isNullOrEmpty(templateId) && !isNullOrEmpty(node)) {
-            const settings = this._codeGenSettingsConvertor.nodeToSettings(templateId, node);
-            if (isNullOrUndefined(settings)) {
-                throw new Error('Conversion from node to "CodeGeneratorGroupSettings" failed.');
-            }
+            const node = contentNode.childs?.find(x => x.name === 'Settings' && (x.childs?.length ?? 0) > 0);
+            if (!isNullOrEmpty(templateId) && !isNullOrEmpty(node)) {
+                const settings = this._codeGenSettingsConvertor.nodeToSettings(templateId, node);
+                if (isNullOrUndefined(settings)) {
+                    throw new Error('Conversion from node to "CodeGeneratorGroupSettings" failed.');
+                }
 
-            return { templateId, settings, version: codeGenVersion };
+                result.push({ templateId, settings, version: codeGenVersion });
+            }
         }
 
-        return undefined;
+        return result;
     }
 
-    private createCodeGenerator(codeGeneratorElement: ICodeGeneratorElement): ICodeGeneratorElement {
+    private createCodeGenerator(codeGeneratorElement: ICodeGeneratorElement, index: number): ICodeGeneratorElement {
         if (isNullOrUndefined(codeGeneratorElement)) {
             throw new Error('Code generator element is undefined or null.');
         }
 
         const templateId = codeGeneratorElement.templateId;
-        const codeGenVersion = codeGeneratorElement.version > 0 && codeGeneratorElement.version <= ModelVersions.codeGenerator
+        const codeGenVersion = codeGeneratorElement.version > 0
             ? codeGeneratorElement.version
             : ModelVersions.codeGenerator;
 
@@ -158,7 +168,7 @@ export class RootModelElement extends CategoryLikeTreeElement<LhqModel> implemen
         metadataElem.attrs ??= {};
         metadataElem.attrs['descriptorUID'] = CodeGenUID;
 
-        let contentElem = metadataElem.childs?.find(x => x.name === 'content');
+        let contentElem = metadataElem.childs.filter(isCodeGeneratorContentNode)[index];
         if (!contentElem) {
             contentElem = { name: 'content', childs: [], attrs: {} };
             metadataElem.childs.push(contentElem);
@@ -258,17 +268,42 @@ export class RootModelElement extends CategoryLikeTreeElement<LhqModel> implemen
     }
 
     get codeGenerator(): ICodeGeneratorElement | undefined {
-        return this._codeGenerator;
+        return this._codeGenerators.length > 0 ? this._codeGenerators[0] : undefined;
     }
 
     set codeGenerator(value: ICodeGeneratorElement) {
         if (isNullOrUndefined(value)) {
-            this._codeGenerator = value;
+            this._codeGenerators = [];
         } else {
-            this._codeGenerator = this.createCodeGenerator(value);
+            this._codeGenerators[0] = this.createCodeGenerator(value, 0);
         }
     }
 
+    get codeGenerators(): readonly ICodeGeneratorElement[] {
+        return this._codeGenerators;
+    }
+
+    set codeGenerators(value: ICodeGeneratorElement[]) {
+        if (isNullOrUndefined(value)) {
+            throw new Error('Code generators cannot be null or undefined.');
+        }
+
+        if (!Array.isArray(value)) {
+            throw new Error('Code generators must be an array.');
+        }
+
+        const codeGenerators = value.map((codeGenerator, index) => this.createCodeGenerator(codeGenerator, index));
+
+        // remove 'content' nodes of code generators which are no longer present
+        const metadataElem = this._metadatas?.childs?.find(x => x.name === 'metadata' && x.attrs?.['descriptorUID'] === CodeGenUID);
+        if (metadataElem?.childs) {
+            const unusedContents = metadataElem.childs.filter(isCodeGeneratorContentNode).slice(codeGenerators.length);
+            metadataElem.childs = metadataElem.childs.filter(x => !unusedContents.includes(x));
+        }
+
+        this._codeGenerators = codeGenerators;
+    }
+
     public addLanguages(languages: string[], primaryLanguage?: string): boolean {
         if (isNullOrUndefined(languages) || languages.length === 0) {
             return false;
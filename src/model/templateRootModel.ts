@@ -1,7 +1,8 @@
 import { AppError } from '../AppError';
 import { isNullOrEmpty } from '../utils';
-import type { CodeGeneratorBasicSettings, ICategoryLikeTreeElement, IRootModelElement } from '../api/modelTypes';
-import { TreeElement } from './treeElement';
+import type { CodeGeneratorBasicSettings, ICategoryLikeTreeElement, ICodeGeneratorElement, IRootModelElement } from '../api/modelTypes';
+import type { IHostEnvironment } from '../types';
+import { isTreeElement } from './treeElement';
 
 export type OutputFileData = {
     fileName: string | undefined;
@@ -20,6 +21,7 @@ export type TemplateRunType = 'root' | 'child';
 // model which is bind to handlebars template compile and run
 export class TemplateRootModel {
     private _model: IRootModelElement;
+    private _codeGenerator: ICodeGeneratorElement;
     private _data: Record<string, unknown>;
     private _rootHost: Record<string, unknown> | undefined;
     private _host: Record<string, unknown>;
@@ -29,15 +31,27 @@ export class TemplateRootModel {
     private _inlineOutputs: OutputInlineData[] = [];
     private _inlineEvaluating = false;
     private _currentTemplateId: string | undefined;
+    private _hostEnvironment: IHostEnvironment;
 
-    constructor(model: IRootModelElement, data: Record<string, unknown>, host: Record<string, unknown>) {
+    constructor(model: IRootModelElement, codeGenerator: ICodeGeneratorElement, data: Record<string, unknown>,
+        host: Record<string, unknown>, hostEnvironment: IHostEnvironment) {
         if (isNullOrEmpty(model)) {
             throw new AppError('Missing root model !');
         }
 
+        if (isNullOrEmpty(codeGenerator)) {
+            throw new AppError('Missing code generator !');
+        }
+
+        if (isNullOrEmpty(hostEnvironment)) {
+            throw new AppError('Missing host environment !');
+        }
+
         this._model = model;
+        this._codeGenerator = codeGenerator;
         this._data = data ?? {};
         this._host = host ?? {};
+        this._hostEnvironment = hostEnvironment;
     }
 
     setCurrentTemplateId(templateId: string | undefined): void {
@@ -109,8 +123,15 @@ export class TemplateRootModel {
         this._host = Object.assign({}, childData.host ?? {}, this._rootHost);
         this._output = undefined;
 
+        this.clearModelTempData();
+    }
+
+    /**
+     * clears temporary data of all model tree elements (set by previous template runs).
+     */
+    public clearModelTempData(): void {
         const recursiveClear = (element: ICategoryLikeTreeElement) => {
-            if (element instanceof TreeElement) {
+            if (isTreeElement(element)) {
                 element.clearTempData();
             }
 
@@ -120,7 +141,7 @@ export class TemplateRootModel {
 
             if (element.hasResources) {
                 element.resources.forEach(e => {
-                    if (e instanceof TreeElement) {
+                    if (isTreeElement(e)) {
                         e.clearTempData();
                     }
                 });
@@ -149,6 +170,13 @@ export class TemplateRootModel {
         return this._model;
     }
 
+    /**
+     * code generator (template id and settings) of model for which templates are run.
+     */
+    public get codeGenerator(): ICodeGeneratorElement {
+        return this._codeGenerator;
+    }
+
     /**
      * extra data defined dynamically by template run, resets on each template run.
      */
@@ -171,4 +199,11 @@ export class TemplateRootModel {
     public get host(): Record<string, unknown> {
         return this._host;
     }
+
+    /**
+     * host environment of generator which runs templates.
+     */
+    public get hostEnvironment(): IHostEnvironment {
+        return this._hostEnvironment;
+    }
 };
\ No newline at end of file
@@ -50,6 +50,17 @@ export abstract class TreeElementBase implements ITreeElement {
     }
 }
 
+/**
+ * Checks if given value is a tree element, recognized by its shape (not by class),
+ * so elements created by other copy of this library are recognized too.
+ * @param value - Value to check.
+ * @returns `true` if value is a tree element, otherwise `false`.
+ */
+export function isTreeElement(value: unknown): value is TreeElementBase {
+    return typeof value === 'object' && value !== null && 'elementType' in value &&
+        typeof (value as TreeElementBase).addToTempData === 'function' && typeof (value as TreeElementBase).clearTempData === 'function';
+}
+
 export abstract class TreeElement<TModel extends ILhqModelType> extends TreeElementBase {
     protected _parent: ICategoryLikeTreeElement | undefined;
     protected _root: IRootModelElement;
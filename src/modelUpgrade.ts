@@ -0,0 +1,119 @@
+import type { ICodeGeneratorSettingsConvertor } from './api/modelTypes';
+import type { ILhqCategoryLikeModelType, LhqModel, LhqModelDataNode, LhqModelVersion } from './api/schemas';
+import { validateLhqModel } from './generatorUtils';
+import { CodeGenUID, ModelVersions } from './model/modelConst';
+import { resolveTemplateDefinition } from './settingsConvertor';
+import type { UpgradeModelOptions, UpgradeModelResult } from './types';
+import { isNullOrEmpty, tryRemoveBOM } from './utils';
+
+/**
+ * Single step of model upgrade, transforms raw model data (as stored in file) from version `from` to version `to`.
+ */
+type ModelUpgradeStep = {
+    from: LhqModelVersion;
+    to: LhqModelVersion;
+    upgrade: (model: LhqModel, changes: string[]) => void;
+};
+
+const upgradeSteps: ModelUpgradeStep[] = [
+    { from: 1, to: 2, upgrade: upgradeV1ToV2 },
+    { from: 2, to: 3, upgrade: upgradeV2ToV3 }
+];
+
+/**
+ * Upgrades raw LHQ model data to the latest model version by running all upgrade steps (one per version) in order,
+ * followed by migration of code generator settings to latest template versions.
+ * @param data - LHQ model data (as JSON string or parsed object), source data are never modified.
+ * @param convertor - Settings convertor used to migrate code generator settings.
+ * @param options - Upgrade options.
+ * @returns Result of the upgrade with upgraded model (unless `dryRun` is set) and list of changes.
+ */
+export function upgradeModelData(data: LhqModel | string, convertor: ICodeGeneratorSettingsConvertor, options?: UpgradeModelOptions): UpgradeModelResult {
+    const dryRun = options?.dryRun ?? false;
+    const changes: string[] = [];
+
+    const validation = validateLhqModel(data);
+    if (!validation.success || !validation.model) {
+        return { success: false, error: validation.error ?? 'Model is not valid.', changes };
+    }
+
+    // source data (not validated model) are used to keep order of properties as in source
+    const model = (typeof data === 'string' ? JSON.parse(tryRemoveBOM(data)) : JSON.parse(JSON.stringify(data))) as LhqModel;
+    let error: string | undefined;
+
+    try {
+        for (const step of upgradeSteps.filter(x => x.from >= model.model.version)) {
+            step.upgrade(model, changes);
+            model.model.version = step.to;
+            changes.push(`Model version upgraded from ${step.from} to ${step.to}.`);
+        }
+
+        migrateCodeGeneratorSettings(model, convertor, changes);
+    } catch (e) {
+        error = (e as Error).message;
+    }
+
+    const success = isNullOrEmpty(error);
+    return { success, error, model: success && !dryRun ? model : undefined, changes: success ? changes : [] };
+}
+
+// v2 does not store empty categories and resources collections
+function upgradeV1ToV2(model: LhqModel, changes: string[]): void {
+    const removeEmptyCollections = (element: ILhqCategoryLikeModelType, path: string): void => {
+        if (element.resources && Object.keys(element.resources).length === 0) {
+            delete element.resources;
+            changes.push(`Empty resources collection removed from '${path}'.`);
+        }
+
+        if (element.categories) {
+            if (Object.keys(element.categories).length === 0) {
+                delete element.categories;
+                changes.push(`Empty categories collection removed from '${path}'.`);
+            } else {
+                for (const [name, category] of Object.entries(element.categories)) {
+                    removeEmptyCollections(category, path === '/' ? `/${name}` : `${path}/${name}`);
+                }
+            }
+        }
+    };
+
+    removeEmptyCollections(model, '/');
+}
+
+// v3 stores version of code generator template settings
+function upgradeV2ToV3(model: LhqModel, changes: string[]): void {
+    for (const contentNode of getCodeGeneratorContentNodes(model)) {
+        if (isNullOrEmpty(contentNode.attrs!['version'])) {
+            contentNode.attrs!['version'] = ModelVersions.codeGenerator.toFixed(0);
+            changes.push(`Template '${contentNode.attrs!['templateId']}' settings version set to ${ModelVersions.codeGenerator}.`);
+        }
+    }
+}
+
+function migrateCodeGeneratorSettings(model: LhqModel, convertor: ICodeGeneratorSettingsConvertor, changes: string[]): void {
+    for (const contentNode of getCodeGeneratorContentNodes(model)) {
+        const templateId = contentNode.attrs!['templateId'];
+        if (isNullOrEmpty(templateId)) {
+            continue;
+        }
+
+        const definition = resolveTemplateDefinition(convertor, templateId);
+        const settingsNode = contentNode.childs?.find(x => x.name === 'Settings');
+        if (definition && settingsNode) {
+            const versionInt = parseInt(contentNode.attrs!['version'] ?? '');
+            const version = versionInt > 0 ? versionInt : ModelVersions.codeGenerator;
+
+            // settings stored with newer version (than template has) are kept as is
+            if (version < definition.version) {
+                changes.push(...(convertor.migrateSettingsNode?.(templateId, settingsNode, version) ?? []));
+                contentNode.attrs!['version'] = definition.version.toFixed(0);
+                changes.push(`Template '${templateId}' settings version upgraded from ${version} to ${definition.version}.`);
+            }
+        }
+    }
+}
+
+function getCodeGeneratorContentNodes(model: LhqModel): LhqModelDataNode[] {
+    const metadataNode = model.metadatas?.childs?.find(x => x.name === 'metadata' && x.attrs?.['descriptorUID'] === CodeGenUID);
+    return metadataNode?.childs?.filter(x => x.name === 'content' && !isNullOrEmpty(x.attrs?.['templateId'])) ?? [];
+}
\ No newline at end of file
@@ -1,8 +1,7 @@
 import type { ModelVersionsType, CodeGeneratorGroupSettings, ICategoryLikeTreeElement, ICodeGeneratorElement, ICodeGeneratorSettingsConvertor, IResourceElement, IResourceValueElement, IRootModelElement, ITreeElement, ITreeElementPaths } from './api/modelTypes';
-import type { ILhqModelType, LhqModel, LhqModelCategory, LhqModelResource } from './api/schemas';
+import type { ILhqCategoryLikeModelType, ILhqModelType, LhqModel, LhqModelCategory, LhqModelResource } from './api/schemas';
 import type { TemplateMetadataGroupSettings } from './api/templates';
-import { validateLhqModel } from './generatorUtils';
-import { HbsTemplateManager } from './hbsManager';
+import { setValidationIssuesPosition, validateLhqModel } from './generatorUtils';
 import { CategoryElement } from './model/categoryElement';
 import type { CategoryLikeTreeElement } from './model/categoryLikeTreeElement';
 import { ModelVersions } from './model/modelConst';
@@ -11,8 +10,9 @@ import { RootModelElement } from './model/rootModelElement';
 import { type TreeElement, TreeElementBase } from './model/treeElement';
 import { TreeElementPaths } from './model/treeElementPaths';
 import type { ElementToModelOptions, MapToModelOptions } from './model/types';
-import { CodeGeneratorSettingsConvertor } from './settingsConvertor';
-import type { FormattingOptions, ImportModelErrorKind, ImportModelMode, ImportModelOptions, ImportModelResult, ImportResourceItem, LhqValidationResult, UpgradeModelResult } from './types';
+import { CodeGeneratorSettingsConvertor, resolveTemplateDefinition } from './settingsConvertor';
+import { upgradeModelData } from './modelUpgrade';
+import type { FormattingOptions, ImportModelErrorKind, ImportModelMode, ImportModelOptions, ImportModelResult, ImportResourceItem, LhqValidationIssue, LhqValidationIssueSeverity, LhqValidationResult, UpgradeModelOptions, UpgradeModelResult } from './types';
 import { arraySortBy, detectFormatting, isNullOrEmpty, serializeJson, strCompare } from './utils';
 import type { Mutable } from './api';
 import { modelConst } from '.';
@@ -42,47 +42,64 @@ export class ModelUtils {
     }
 
     /**
-     * Checks if the model upgrade is required.
+     * Checks if the model upgrade is required (model version or settings version of some code generator is older than current version).
+     * @param rootModel - The root model element to check.
+     * @param settingsConvertor - Optional settings convertor (e.g. `generator.settingsConvertor`) used to resolve template definitions,
+     * when not specified convertor which root model was created with is used.
      */
-    public static upgradeRequired(rootModel: IRootModelElement): boolean {
-        return rootModel.version < ModelVersions.model;
+    public static upgradeRequired(rootModel: IRootModelElement, settingsConvertor?: ICodeGeneratorSettingsConvertor): boolean {
+        const convertor = settingsConvertor ?? ModelUtils.getRootSettingsConvertor(rootModel);
+        return rootModel.version < ModelVersions.model || rootModel.codeGenerators.some(x => ModelUtils.codeGeneratorUpgradeRequired(x, convertor));
+    }
+
+    private static getRootSettingsConvertor(rootModel: IRootModelElement): ICodeGeneratorSettingsConvertor {
+        return rootModel instanceof RootModelElement ? rootModel.codeGenSettingsConvertor : ModelUtils.codeGeneratorSettingsConvertor;
+    }
+
+    private static codeGeneratorUpgradeRequired(codeGenerator: ICodeGeneratorElement, convertor: ICodeGeneratorSettingsConvertor): boolean {
+        const definition = isNullOrEmpty(codeGenerator.templateId) ? undefined : resolveTemplateDefinition(convertor, codeGenerator.templateId);
+        return definition !== undefined && codeGenerator.version < definition.version;
     }
 
     /**
-     * Upgrades the model to the latest version.
+     * Upgrades the model to the latest version, including migration of code generator settings to latest template version.
      * @param rootModel - The root model element to be upgraded.
-     * @returns 
+     * @param options - Upgrade options, e.g. `dryRun` to only report changes.
+     * @returns Result of the upgrade with upgraded root model and list of changes made.
      */
-    public static upgradeModel(rootModel: IRootModelElement): UpgradeModelResult {
-        let error: string | undefined;
-        //let model: LhqModel | undefined;
-        let newRootModel: IRootModelElement | undefined;
+    public static upgradeModel(rootModel: IRootModelElement, options?: UpgradeModelOptions): UpgradeModelResult {
         if (isNullOrEmpty(rootModel)) {
-            error = 'rootModel is empty or invalid.';
-        } else if (rootModel.version > ModelVersions.model) {
-            error = 'Model version is newer than the supported version.';
-        } else if (rootModel.version < ModelVersions.model) {
-            if (isNullOrEmpty(rootModel.codeGenerator)) {
-                error = 'Code generator is not defined.';
-            } else if (isNullOrEmpty(rootModel.codeGenerator.templateId)) {
-                error = 'Code generator template is not defined.';
-            } else {
-                // const templateId = rootModel.codeGenerator.templateId;
-                // const settings = rootModel.codeGenerator.settings;
-                // const defaultSettings = ModelUtils.createCodeGeneratorElement(templateId).settings;
-                // const mergedSettings = ModelUtils.mergeCodeGeneratorSettings(defaultSettings, settings);
-                // rootModel.codeGenerator = ModelUtils.createCodeGeneratorElement(templateId, mergedSettings);
+            return { success: false, error: 'rootModel is empty or invalid.', changes: [] };
+        }
+
+        if (rootModel.version > ModelVersions.model) {
+            return { success: false, error: 'Model version is newer than the supported version.', changes: [] };
+        }
 
-                // const model = ModelUtils.elementToModel<LhqModel>(rootModel);
-                const model = ModelUtils.rootElementToModel(rootModel);
-                model.model.version = ModelVersions.model;
+        const convertor = options?.settingsConvertor ?? ModelUtils.getRootSettingsConvertor(rootModel);
+        if (!ModelUtils.upgradeRequired(rootModel, convertor)) {
+            return { success: true, error: undefined, changes: [] };
+        }
 
-                newRootModel = ModelUtils.createRootElement(model);
-            }
+        // raw model (with settings nodes as stored in file) is required to migrate also settings unknown to current template version
+        const model = ModelUtils.rootElementToModel(rootModel, { applyDefaults: false });
+        const result = ModelUtils.upgradeModelData(model, { ...options, settingsConvertor: convertor });
+        if (result.success && result.model) {
+            result.rootModel = new RootModelElement(ModelUtils.rootElementToModel(new RootModelElement(result.model, convertor)), convertor);
         }
 
-        const success = isNullOrEmpty(error);
-        return { error, success, rootModel: success ? newRootModel : undefined };
+        return result;
+    }
+
+    /**
+     * Upgrades raw LHQ model data (e.g. loaded from file) to the latest version step by step (from each model version to next one),
+     * including migration of code generator settings to latest template version.
+     * @param data - The LHQ model data (JSON string or parsed object) to be upgraded, data are not modified.
+     * @param options - Upgrade options, e.g. `dryRun` to only report changes.
+     * @returns Result of the upgrade with upgraded model (property `model`) and human readable list of changes made.
+     */
+    public static upgradeModelData(data: LhqModel | string, options?: UpgradeModelOptions): UpgradeModelResult {
+        return upgradeModelData(data, options?.settingsConvertor ?? ModelUtils.codeGeneratorSettingsConvertor, options);
     }
 
     /**
@@ -136,13 +153,15 @@ export class ModelUtils {
      * Creates a new code generator element for the specified template ID and settings.
      * @param templateId - The ID of the template to be used for the code generator element.
      * @param settings - The settings to be applied to the code generator element.
+     * @param settingsConvertor - Optional settings convertor (e.g. `generator.settingsConvertor`) used to resolve template definition,
+     * when not specified default convertor (using templates initialized by `Generator.initialize`) is used.
      */
-    public static createCodeGeneratorElement(templateId: string, settings?: CodeGeneratorGroupSettings): ICodeGeneratorElement {
+    public static createCodeGeneratorElement(templateId: string, settings?: CodeGeneratorGroupSettings, settingsConvertor?: ICodeGeneratorSettingsConvertor): ICodeGeneratorElement {
         if (isNullOrEmpty(templateId)) {
             throw new Error('Template Id cannot be empty !');
         }
 
-        const definition = HbsTemplateManager.getTemplateDefinition(templateId);
+        const definition = resolveTemplateDefinition(settingsConvertor ?? ModelUtils.codeGeneratorSettingsConvertor, templateId);
         if (!definition) {
             throw new Error(`Template definition for '${templateId}' not found.`);
         }
@@ -198,7 +217,7 @@ export class ModelUtils {
 
         return {
             templateId,
-            version: ModelVersions.codeGenerator,
+            version: definition.version,
             settings
         };
     }
@@ -266,12 +285,15 @@ export class ModelUtils {
         options = options || {};
         const applyDefaults = options?.applyDefaults ?? true;
 
-        if (applyDefaults && root.codeGenerator && !isNullOrEmpty(root.codeGenerator.templateId)) {
-            const templateId = root.codeGenerator.templateId;
-            const settings = root.codeGenerator.settings ?? {};
-            const defaultSettings = ModelUtils.createCodeGeneratorElement(templateId).settings;
-            const mergedSettings = ModelUtils.mergeCodeGeneratorSettings(defaultSettings, settings);
-            root.codeGenerator = ModelUtils.createCodeGeneratorElement(templateId, mergedSettings);
+        if (applyDefaults && root.codeGenerators.length > 0 && root.codeGenerators.every(x => !isNullOrEmpty(x.templateId))) {
+            root.codeGenerators = root.codeGenerators.map(codeGenerator => {
+                const templateId = codeGenerator.templateId;
+                const settings = codeGenerator.settings ?? {};
+                const defaultSettings = ModelUtils.createCodeGeneratorElement(templateId, undefined, root.codeGenSettingsConvertor).settings;
+                const mergedSettings = ModelUtils.mergeCodeGeneratorSettings(defaultSettings, settings);
+                // settings version is kept, it can be changed only by migration in 'upgradeModel'
+                return { ...ModelUtils.createCodeGeneratorElement(templateId, mergedSettings, root.codeGenSettingsConvertor), version: codeGenerator.version };
+            });
         }
 
         const { applyDefaults: __, ...opts } = options;
@@ -753,6 +775,99 @@ export class ModelUtils {
         return result;
     }
 
+    /**
+     * Validates semantic rules of LHQ model (which are not covered by LHQ model schema), like:
+     * primary language must be declared in languages, resource values must use declared languages,
+     * names of categories, resources and parameters must be valid names, resource parameters must have unique order,
+     * categories (or root resources) must be enabled in model options when used.
+     * @param model - The LHQ model (already validated against schema, see `generatorUtils.validateLhqModel`).
+     * @param json - Optional source JSON string of the model, used to set line and column of the found issues.
+     * @returns List of all found issues (with severity `error` or `warning`), empty if the model is valid.
+     */
+    public static validateModelSemantics(model: LhqModel, json?: string): LhqValidationIssue[] {
+        const issues: LhqValidationIssue[] = [];
+        const addIssue = (path: string[], code: string, message: string, severity: LhqValidationIssueSeverity = 'error') => {
+            issues.push({ path: path.join('.'), code, severity, message });
+        };
+
+        const validateName = (name: string, path: string[], elementType: string) => {
+            const result = ModelUtils.validateElementName(name);
+            if (result !== 'valid') {
+                addIssue(path, 'model.invalidName', `Invalid ${elementType} name '${name}' (${result}).`);
+            }
+        };
+
+        const languages = model.languages ?? [];
+        languages.forEach((language, index) => {
+            if (languages.indexOf(language) !== index) {
+                addIssue(['languages', index.toString()], 'model.duplicateLanguage', `Language '${language}' is declared more than once.`);
+            }
+        });
+
+        const primaryLanguage = model.model.primaryLanguage;
+        if (!languages.includes(primaryLanguage)) {
+            addIssue(['model', 'primaryLanguage'], 'model.primaryLanguageNotDeclared',
+                `Primary language '${primaryLanguage}' is not declared in model languages.`);
+        }
+
+        validateName(model.model.name, ['model', 'name'], 'model');
+
+        if (!isNullOrEmpty(model.categories) && Object.keys(model.categories).length > 0 && !model.model.options.categories) {
+            addIssue(['categories'], 'model.categoriesDisabled', `Model contains categories but categories are disabled in model options.`);
+        }
+
+        if (!isNullOrEmpty(model.resources) && Object.keys(model.resources).length > 0 && model.model.options.resources === 'Categories') {
+            addIssue(['resources'], 'model.rootResourcesDisabled', `Model contains resources in root but resources are allowed only in categories by model options.`);
+        }
+
+        const validateResource = (resource: LhqModelResource, path: string[]) => {
+            if (resource.parameters) {
+                const orders = new Map<number, string>();
+                Object.entries(resource.parameters).forEach(([paramName, parameter]) => {
+                    const paramPath = [...path, 'parameters', paramName];
+                    validateName(paramName, paramPath, 'parameter');
+
+                    const existing = orders.get(parameter.order);
+                    if (existing !== undefined) {
+                        addIssue([...paramPath, 'order'], 'model.duplicateParameterOrder',
+                            `Parameter '${paramName}' has same order (${parameter.order}) as parameter '${existing}'.`, 'warning');
+                    } else {
+                        orders.set(parameter.order, paramName);
+                    }
+                });
+            }
+
+            Object.keys(resource.values ?? {}).forEach(language => {
+                if (!languages.includes(language)) {
+                    addIssue([...path, 'values', language], 'model.undeclaredLanguage',
+                        `Resource value uses language '${language}' which is not declared in model languages.`, 'warning');
+                }
+            });
+        };
+
+        const validateCategoryLike = (element: ILhqCategoryLikeModelType, path: string[]) => {
+            Object.entries(element.categories ?? {}).forEach(([name, category]) => {
+                const categoryPath = [...path, 'categories', name];
+                validateName(name, categoryPath, 'category');
+                validateCategoryLike(category, categoryPath);
+            });
+
+            Object.entries(element.resources ?? {}).forEach(([name, resource]) => {
+                const resourcePath = [...path, 'resources', name];
+                validateName(name, resourcePath, 'resource');
+                validateResource(resource, resourcePath);
+            });
+        };
+
+        validateCategoryLike(model, []);
+
+        if (json !== undefined) {
+            setValidationIssuesPosition(json, issues);
+        }
+
+        return issues;
+    }
+
     /**
      * Checks if the given string contains invalid Unicode characters.
      * @param value - The string value to check for invalid Unicode characters.
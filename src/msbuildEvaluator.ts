@@ -0,0 +1,230 @@
+import type { FileInfo } from './types';
+import { isNullOrEmpty } from './utils';
+
+/**
+ * Result of expanding MSBuild property expressions (eg: `$(RootNamespace)`) in a value.
+ */
+export type MsBuildExpandResult = {
+    /**
+     * Expanded value, unresolved expressions are expanded to empty string (same as MSBuild does).
+     */
+    value: string;
+
+    /**
+     * Names of properties (or expressions) which could not be resolved.
+     */
+    unresolvedProperties: string[];
+};
+
+// $(Name) or $(Name.Method('arg1', 'arg2').OtherMethod())
+const regexPropertyExpression = /\$\(\s*([A-Za-z_][\w-]*)\s*((?:\.\s*\w+\s*\([^()]*\)\s*)*)\)/g;
+const regexMethodCall = /\.\s*(\w+)\s*\(([^()]*)\)/g;
+const regexUnsupportedExpression = /\$\([^)]*\)?/g;
+const regexMethodArgument = /"([^"]*)"|'([^']*)'|`([^`]*)`/g;
+const regexConditionComparison = /^\s*'([^']*)'\s*(==|!=)\s*'([^']*)'\s*$/;
+const regexXmlComment = /<!--[\s\S]*?-->/g;
+const regexImportProject = /<Import\s[^>]*?\bProject\s*=\s*"([^"]*)"/gi;
+
+/**
+ * Evaluates MSBuild properties defined in `<PropertyGroup>` elements of MSBuild files
+ * (C# project file, `Directory.Build.props`) so values like `<RootNamespace>` with dynamic expressions can be computed.
+ *
+ * Only subset of MSBuild is supported:
+ * - well-known properties `MSBuildProjectName`, `MSBuildProjectFile`, `MSBuildProjectExtension`, `MSBuildProjectDirectory`,
+ *   `MSBuildProjectFullPath` and `MSBuildThisFile*` variants (for file being evaluated)
+ * - property functions `Replace`, `ToLower`, `ToUpper` (and `Invariant` variants), `Trim`, `TrimStart` and `TrimEnd`
+ * - conditions comparing strings with `==` / `!=`, combined with `and` / `or`, other conditions are treated as not met
+ *
+ * Imports (`<Import>`), items and SDK defined properties are not evaluated.
+ */
+export class MsBuildPropertyEvaluator {
+    // MSBuild property names are case insensitive, keys are stored in lower case
+    private readonly properties = new Map<string, string>();
+    private readonly unresolved = new Map<string, string[]>();
+
+    /**
+     * Creates evaluator for the given project file.
+     * @param projectFile - Project file (eg: `c:/Dir/Project.csproj`) used for `MSBuildProject*` well-known properties.
+     */
+    constructor(projectFile: FileInfo) {
+        this.setProperty('MSBuildProjectName', projectFile.extless);
+        this.setProperty('MSBuildProjectFile', projectFile.basename);
+        this.setProperty('MSBuildProjectExtension', projectFile.ext);
+        this.setProperty('MSBuildProjectDirectory', projectFile.dirname);
+        this.setProperty('MSBuildProjectFullPath', projectFile.full);
+        this.setThisFileProperties(projectFile);
+    }
+
+    /**
+     * Gets evaluated value of the property.
+     * @param name - Name of the property (case insensitive).
+     * @returns Evaluated value or `undefined` when property is not defined.
+     */
+    public getProperty(name: string): string | undefined {
+        return this.properties.get(name.toLowerCase());
+    }
+
+    /**
+     * Sets value of the property (eg: global property), value is stored as is (without expansion).
+     * @param name - Name of the property (case insensitive).
+     * @param value - Value of the property.
+     */
+    public setProperty(name: string, value: string): void {
+        const key = name.toLowerCase();
+        this.properties.set(key, value);
+        this.unresolved.delete(key);
+    }
+
+    /**
+     * Evaluates all `<PropertyGroup>` elements (in document order) of the MSBuild file.
+     * Files must be evaluated in the same order as MSBuild imports them (eg: `Directory.Build.props` files before project file).
+     * @param file - MSBuild file used for `MSBuildThisFile*` well-known properties.
+     * @param document - Parsed XML document of the MSBuild file.
+     */
+    public evaluateFile(file: FileInfo, document: Document): void {
+        this.setThisFileProperties(file);
+
+        const root = document.documentElement;
+        if (!root) {
+            return;
+        }
+
+        for (const propertyGroup of getChildElements(root).filter(x => x.localName === 'PropertyGroup')) {
+            if (!this.evaluateCondition(propertyGroup.getAttribute('Condition'))) {
+                continue;
+            }
+
+            for (const property of getChildElements(propertyGroup)) {
+                if (this.evaluateCondition(property.getAttribute('Condition'))) {
+                    const result = this.expand(property.textContent ?? '');
+                    const key = property.localName.toLowerCase();
+                    this.properties.set(key, result.value);
+                    if (result.unresolvedProperties.length > 0) {
+                        this.unresolved.set(key, result.unresolvedProperties);
+                    } else {
+                        this.unresolved.delete(key);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Expands all MSBuild property expressions (eg: `$(MSBuildProjectName.Replace(" ", "_"))`) in the value.
+     * @param value - Value with MSBuild property expressions.
+     * @returns Expanded value with list of properties which could not be resolved.
+     */
+    public expand(value: string): MsBuildExpandResult {
+        const unresolvedProperties: string[] = [];
+
+        let result = value.replace(regexPropertyExpression, (expression: string, name: string, methods: string) => {
+            const key = name.toLowerCase();
+            let propValue = this.properties.get(key);
+            if (propValue === undefined) {
+                unresolvedProperties.push(name);
+                return '';
+            }
+
+            unresolvedProperties.push(...(this.unresolved.get(key) ?? []));
+
+            for (const [, method, args] of methods.matchAll(regexMethodCall)) {
+                const methodResult = invokeMethod(propValue, method, parseMethodArguments(args));
+                if (methodResult === undefined) {
+                    unresolvedProperties.push(expression);
+                    return '';
+                }
+                propValue = methodResult;
+            }
+
+            return propValue;
+        });
+
+        // static property functions, item lists, etc. are not supported
+        result = result.replace(regexUnsupportedExpression, (expression: string) => {
+            unresolvedProperties.push(expression);
+            return '';
+        });
+
+        return { value: result, unresolvedProperties: [...new Set(unresolvedProperties)] };
+    }
+
+    private setThisFileProperties(file: FileInfo): void {
+        const separator = file.full.includes('\\') ? '\\' : '/';
+        const directory = file.dirname.endsWith(separator) ? file.dirname : file.dirname + separator;
+
+        this.setProperty('MSBuildThisFile', file.basename);
+        this.setProperty('MSBuildThisFileName', file.extless);
+        this.setProperty('MSBuildThisFileExtension', file.ext);
+        this.setProperty('MSBuildThisFileDirectory', directory);
+        this.setProperty('MSBuildThisFileFullPath', file.full);
+    }
+
+    private evaluateCondition(condition: string | null): boolean {
+        if (isNullOrEmpty(condition) || condition.trim() === '') {
+            return true;
+        }
+
+        return condition.split(/\s+or\s+/i).some(orPart =>
+            orPart.split(/\s+and\s+/i).every(andPart => {
+                const match = regexConditionComparison.exec(andPart.trim().replace(/^\((.*)\)$/, '$1'));
+                if (!match) {
+                    return false;
+                }
+
+                const left = this.expand(match[1]).value.toLowerCase();
+                const right = this.expand(match[3]).value.toLowerCase();
+                return match[2] === '==' ? left === right : left !== right;
+            }));
+    }
+}
+
+/**
+ * Checks whether `Directory.Build.props` file explicitly imports `Directory.Build.props` file from parent directory.
+ * MSBuild imports only the nearest `Directory.Build.props` file, files from parent directories are used only when imported
+ * (eg: `<Import Project="$([MSBuild]::GetPathOfFileAbove('Directory.Build.props', '$(MSBuildThisFileDirectory)../'))" />`
+ * or `<Import Project="..\Directory.Build.props" />`), imported file is treated as imported at the start of the importing file.
+ * @param content - The string content of the `Directory.Build.props` file.
+ * @returns `true` when the file imports `Directory.Build.props` file from parent directory.
+ */
+export function importsParentDirectoryBuildProps(content: string): boolean {
+    return [...content.replace(regexXmlComment, '').matchAll(regexImportProject)]
+        .map(x => x[1])
+        .some(project => /Directory\.Build\.props/i.test(project) && (/GetPathOfFileAbove/i.test(project) || /\.\.[\\/]/.test(project)));
+}
+
+function getChildElements(element: Element): Element[] {
+    const result: Element[] = [];
+    for (let i = 0; i < element.childNodes.length; i++) {
+        const node = element.childNodes[i];
+        if (node.nodeType === 1 /* ELEMENT_NODE */) {
+            result.push(node as Element);
+        }
+    }
+
+    return result;
+}
+
+function parseMethodArguments(args: string): string[] {
+    return [...args.matchAll(regexMethodArgument)].map(x => x[1] ?? x[2] ?? x[3] ?? '');
+}
+
+function invokeMethod(value: string, method: string, args: string[]): string | undefined {
+    switch (method) {
+        case 'Replace':
+            return args.length === 2 && args[0] !== '' ? value.split(args[0]).join(args[1]) : undefined;
+        case 'ToLower':
+        case 'ToLowerInvariant':
+            return value.toLowerCase();
+        case 'ToUpper':
+        case 'ToUpperInvariant':
+            return value.toUpperCase();
+        case 'Trim':
+            return args.length === 0 ? value.trim() : undefined;
+        case 'TrimStart':
+            return args.length === 0 ? value.replace(/^\s+/, '') : undefined;
+        case 'TrimEnd':
+            return args.length === 0 ? value.replace(/\s+$/, '') : undefined;
+        default:
+            return undefined;
+    }
+}
\ No newline at end of file
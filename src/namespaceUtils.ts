@@ -1,7 +1,8 @@
 import { DOMParser as xmlDomParser } from '@xmldom/xmldom';
 import * as xpath from 'xpath';
-import type { CSharpNamespaceInfo, FileInfo, FindNamespaceOptions } from './types';
-import { isNullOrEmpty, tryRemoveBOM } from './utils';
+import { importsParentDirectoryBuildProps, MsBuildPropertyEvaluator } from './msbuildEvaluator';
+import type { CSharpNamespaceInfo, CSharpNamespaceSource, FileInfo, FindNamespaceOptions } from './types';
+import { isNullOrEmpty, toIdentifier, tryRemoveBOM } from './utils';
 
 import type { XPathSelect } from 'xpath';
 
@@ -10,7 +11,7 @@ let DOMParser: typeof globalThis.DOMParser;
 export function findNamespaceForModel(options: FindNamespaceOptions): CSharpNamespaceInfo | undefined {
     let namespaceInfo: CSharpNamespaceInfo | undefined = undefined;
 
-    const { lhqModelFile, csProjectFiles, allowFileName = true } = options;
+    const { lhqModelFile, csProjectFiles, directoryBuildPropsFiles, allowFileName = true } = options;
 
     const dir = lhqModelFile.dirname;
     const namespaceResults: Array<CSharpNamespaceInfo> = [];
@@ -20,7 +21,7 @@ export function findNamespaceForModel(options: FindNamespaceOptions): CSharpName
         const csProjContent = csProj.content as string;
 
         if (!isNullOrEmpty(csProjContent)) {
-            const namespaceInfo = getRootNamespaceFromCsProj(lhqModelFile, ttFile, csProj, csProjContent);
+            const namespaceInfo = getRootNamespaceFromCsProj(lhqModelFile, ttFile, csProj, csProjContent, directoryBuildPropsFiles);
             if (namespaceInfo) {
                 namespaceResults.push(namespaceInfo);
             }
@@ -45,7 +46,8 @@ export function findNamespaceForModel(options: FindNamespaceOptions): CSharpName
 
     if (namespaceInfo?.namespaceDynamicExpression) {
         namespaceInfo.namespace = '';
-        console.log(`Warning: Processing '${lhqModelFile.full}' and its '${namespaceInfo.csProjectFileName?.full ?? ''}' \nValue in 'RootNamespace' or 'AssemblyName' element contains dynamic expression which is not supported.\n` +
+        namespaceInfo.namespaceSource = undefined;
+        console.log(`Warning: Processing '${lhqModelFile.full}' and its '${namespaceInfo.csProjectFileName?.full ?? ''}' \nValue in 'RootNamespace' or 'AssemblyName' element contains dynamic expression which could not be evaluated.\n` +
             `This value will not be used for 'Namespace' in generator.\n` +
             `Set namespace directly in the lhq file in C# template setting 'Namespace' or provide namespace via cmd '--data namespace=<value>'.`);
     }
@@ -55,8 +57,17 @@ export function findNamespaceForModel(options: FindNamespaceOptions): CSharpName
 
     if (isNullOrEmpty(namespace) && namespaceInfo && allowFileName) {
         namespaceInfo.namespace = isNullOrEmpty(csProjFileName) ? '' : namespaceInfo.csProjectFileName.extless?.replace(' ', '_') ?? '';
+        namespaceInfo.namespaceSource = isNullOrEmpty(namespaceInfo.namespace) ? undefined : 'projectFileName';
     }
-    
+
+    // same as Visual Studio, models in sub folders of the project gets folder names appended to the namespace (eg: 'Root.Localization.Common'),
+    // except VB.NET projects where namespace of all files is root namespace regardless of folder
+    if (namespaceInfo && !isNullOrEmpty(namespaceInfo.namespace) && namespaceInfo.namespaceSource !== 'customToolNamespace' &&
+        namespaceInfo.csProjectFileName.ext.toLowerCase() !== '.vbproj') {
+        const segments = getRelativeFolderSegments(namespaceInfo.csProjectFileName.dirname, lhqModelFile.dirname) ?? [];
+        namespaceInfo.namespace = [namespaceInfo.namespace, ...segments.map(sanitizeNamespaceSegment)].join('.');
+    }
+
     return namespaceInfo;
 }
 
@@ -70,16 +81,18 @@ const xpathAssemblyName = 'string(//ns:AssemblyName)';
 
 
 /**
- * Retrieves the root namespace from a C# project file (.csproj).
+ * Retrieves the root namespace from a C# project file (.csproj), VB.NET (.vbproj) and F# (.fsproj) project files are supported too.
  * @param lhqModelFileName - The full path of the `LHQ` model file (eg: `c:/Dir/Strings.lhq`).
  * @param t4FileName - The name of the T4 file associated with the `LHQ` model file (eg: `c:/Dir/Strings.lhq.tt`).
  * @param csProjectFileName - The name of the C# project file which using specified `lhqModelFileName`.
  * @param csProjectFileContent - The string content of the C# project file.
+ * @param directoryBuildPropsFiles - Optional `Directory.Build.props` files (with loaded content), files from parent directories
+ * of the C# project file are used to evaluate MSBuild properties (eg: `$(RootProjectName)`) in the root namespace.
  * @returns An object `CSharpNamespaceInfo` containing the root namespace with other information or `undefined` 
  * if the project file is not valid or not information about namespace is found.
  */
 export function getRootNamespaceFromCsProj(lhqModelFileName: FileInfo, t4FileName: string,
-    csProjectFileName: FileInfo, csProjectFileContent: string): CSharpNamespaceInfo | undefined {
+    csProjectFileName: FileInfo, csProjectFileContent: string, directoryBuildPropsFiles?: FileInfo[]): CSharpNamespaceInfo | undefined {
     let referencedLhqFile = false;
     let referencedT4File = false;
     let namespaceDynamicExpression = false;
@@ -89,33 +102,29 @@ export function getRootNamespaceFromCsProj(lhqModelFileName: FileInfo, t4FileNam
     }
 
     let rootNamespace: string | undefined;
+    let namespaceSource: CSharpNamespaceSource | undefined;
 
     try {
         let xpathSelect: XPathSelect = undefined!;
         let rootNode: Node = undefined!;
 
-        const fileContent = tryRemoveBOM(csProjectFileContent);
-        if (typeof window !== 'undefined' && typeof window.DOMParser !== 'undefined') {
-            // Running in a browser, use built-in DOMParser
-            DOMParser = window.DOMParser;
-        } else {
-            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
-            DOMParser = xmlDomParser as any;
-        }
-
-        const doc = new DOMParser().parseFromString(fileContent, 'text/xml');
+        const doc = parseXmlDocument(csProjectFileContent);
         rootNode = doc as unknown as Node;
         const rootNs = doc.documentElement?.namespaceURI || '';
         const ns = isNullOrEmpty(rootNs) ? null : rootNs;
 
         xpathSelect = xpath.useNamespaces({ ns: rootNs });
 
+        // items of files in sub folders are referenced with relative path (eg: 'Localization\\Strings.lhq')
+        const relativeFolder = (getRelativeFolderSegments(csProjectFileName.dirname, lhqModelFileName.dirname) ?? []).join('\\');
+
         const findFileElement = function (fileName: string): Element | undefined {
+            const name = isNullOrEmpty(relativeFolder) ? fileName : `${relativeFolder}\\${fileName}`;
             for (const itemGroupType of itemGroupTypes) {
                 for (const attr of itemGroupTypesAttrs) {
                     const xpathQuery = csProjectXPath.replace('##TYPE##', itemGroupType)
                         .replace('##ATTR##', attr)
-                        .replace('##FILE##', fileName);
+                        .replace('##FILE##', name);
 
                     const element = xpathSelect(xpathQuery, rootNode, true) as Element;
                     if (element) {
@@ -128,6 +137,7 @@ export function getRootNamespaceFromCsProj(lhqModelFileName: FileInfo, t4FileNam
 
         // 1st: try to find <RootNamespace>
         rootNamespace = xpathSelect(xpathRootNamespace, rootNode, true) as string;
+        namespaceSource = 'rootNamespace';
 
         referencedLhqFile = findFileElement(lhqModelFileName.basename) != undefined;
         const t4FileElement = findFileElement(t4FileName);
@@ -141,23 +151,100 @@ export function getRootNamespaceFromCsProj(lhqModelFileName: FileInfo, t4FileNam
             const customToolNamespace = t4FileElement.getElementsByTagNameNS(ns, 'CustomToolNamespace')[0]?.textContent;
             if (customToolNamespace) {
                 rootNamespace = customToolNamespace;
+                namespaceSource = 'customToolNamespace';
             }
         }
 
         if (!rootNamespace) {
             // 2st: try to find <AssemblyName>
             rootNamespace = xpathSelect(xpathAssemblyName, rootNode, true) as string;
+            namespaceSource = 'assemblyName';
         }
 
-        if (!isNullOrEmpty(rootNamespace)) {
-            const regexMsBuildProp = /\$\((.*?)(?:\)(?!\)))/g;
-            const match = [...rootNamespace.matchAll(regexMsBuildProp)];
-            namespaceDynamicExpression = match.length > 0;
+        const propsFiles = getParentDirectoryBuildPropsFiles(csProjectFileName, directoryBuildPropsFiles);
+        const hasDynamicExpression = !isNullOrEmpty(rootNamespace) && rootNamespace.includes('$(');
+
+        // 3rd: evaluate MSBuild properties (from Directory.Build.props files and project file itself)
+        if (hasDynamicExpression || (isNullOrEmpty(rootNamespace) && propsFiles.length > 0)) {
+            const evaluator = new MsBuildPropertyEvaluator(csProjectFileName);
+            for (const propsFile of propsFiles) {
+                evaluator.evaluateFile(propsFile, parseXmlDocument(propsFile.content as string));
+            }
+            evaluator.evaluateFile(csProjectFileName, doc);
+
+            if (isNullOrEmpty(rootNamespace)) {
+                const property = ['RootNamespace', 'AssemblyName'].find(x => !isNullOrEmpty(evaluator.getProperty(x)));
+                rootNamespace = property ? `$(${property})` : '';
+                namespaceSource = property === 'AssemblyName' ? 'assemblyName' : 'rootNamespace';
+            }
+
+            const result = evaluator.expand(rootNamespace);
+            namespaceDynamicExpression = result.unresolvedProperties.length > 0;
+            rootNamespace = result.value;
         }
     } catch (e) {
         console.error('Error getting root namespace.', e);
         rootNamespace = undefined;
     }
 
-    return { csProjectFileName, t4FileName, namespace: rootNamespace, referencedLhqFile, referencedT4File, namespaceDynamicExpression };
+    namespaceSource = isNullOrEmpty(rootNamespace) ? undefined : namespaceSource;
+    return { csProjectFileName, t4FileName, namespace: rootNamespace, namespaceSource, referencedLhqFile, referencedT4File, namespaceDynamicExpression };
+}
+
+/**
+ * Parses XML content (eg: C# project file) using built-in `DOMParser` in browser or `xmldom` parser otherwise.
+ * @param content - The XML content (BOM is removed).
+ * @returns Parsed XML document.
+ */
+export function parseXmlDocument(content: string): Document {
+    if (typeof window !== 'undefined' && typeof window.DOMParser !== 'undefined') {
+        // Running in a browser, use built-in DOMParser
+        DOMParser = window.DOMParser;
+    } else {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+        DOMParser = xmlDomParser as any;
+    }
+
+    return new DOMParser().parseFromString(tryRemoveBOM(content), 'text/xml');
+}
+
+// returns props files used by MSBuild for the project file (the nearest one from same or parent directory
+// and props files from parent directories imported by it), ordered from the top-most directory
+function getParentDirectoryBuildPropsFiles(csProjectFileName: FileInfo, directoryBuildPropsFiles?: FileInfo[]): FileInfo[] {
+    const normalizeDir = (dir: string): string => dir.replace(/\\/g, '/').replace(/\/+$/, '') + '/';
+    const projectDir = normalizeDir(csProjectFileName.dirname);
+
+    const nearestFirst = (directoryBuildPropsFiles ?? [])
+        .filter(x => x.exist && !isNullOrEmpty(x.content as string) && projectDir.startsWith(normalizeDir(x.dirname)))
+        .sort((a, b) => normalizeDir(b.dirname).length - normalizeDir(a.dirname).length);
+
+    const result: FileInfo[] = [];
+    for (const propsFile of nearestFirst) {
+        result.unshift(propsFile);
+        if (!importsParentDirectoryBuildProps(propsFile.content as string)) {
+            break;
+        }
+    }
+
+    return result;
+}
+
+// returns folder names between project directory and file directory, or `undefined` when file is not below project directory
+function getRelativeFolderSegments(projectDir: string, fileDir: string): string[] | undefined {
+    const normalize = (dir: string): string[] => dir.replace(/\\/g, '/').split('/').filter(x => x !== '' && x !== '.');
+    const projectSegments = normalize(projectDir);
+    const fileSegments = normalize(fileDir);
+
+    if (fileSegments.length < projectSegments.length || projectSegments.some((x, i) => x !== fileSegments[i])) {
+        return undefined;
+    }
+
+    return fileSegments.slice(projectSegments.length);
+}
+
+// folder name 'My Folder.1st' is converted to namespace segments 'My_Folder._1st'
+function sanitizeNamespaceSegment(folderName: string): string {
+    return folderName.split('.').filter(x => x !== '')
+        .map(x => toIdentifier(x))
+        .join('.');
 }
\ No newline at end of file
@@ -1,10 +1,47 @@
-import type { CodeGeneratorGroupSettings, CodeGeneratorValidateResult, ICodeGeneratorSettingsConvertor } from './api/modelTypes';
+import type { CodeGeneratorGroupSettings, CodeGeneratorPropertyState, CodeGeneratorSettingsContext, CodeGeneratorValidateResult, ICodeGeneratorSettingsConvertor } from './api/modelTypes';
 import type { LhqModelDataNode } from './api/schemas';
-import type { TemplateMetadataGroupSettings, TemplateMetadataSettingValidationResult, TemplateMetadataSettingValidator } from './api/templates';
+import type { TemplateMetadataDefinition, TemplateMetadataGroupSettings, TemplateMetadataSettingCondition, TemplateMetadataSettingValidationResult, TemplateMetadataSettingValidator } from './api/templates';
 import { HbsTemplateManager } from './hbsManager';
-import { isNullOrEmpty } from './utils';
+import { arraySortBy, isNullOrEmpty, isNullOrUndefined } from './utils';
+
+// data used to evaluate settings rules (conditions, cross-field rules)
+type SettingsRulesContext = {
+    definition: TemplateMetadataDefinition;
+    settings: CodeGeneratorGroupSettings;
+    context?: CodeGeneratorSettingsContext;
+};
+
+/**
+ * Gets template definition using given settings convertor, or from default template manager (`HbsTemplateManager.default`)
+ * when convertor does not implement optional `getTemplateDefinition`.
+ * @param convertor - Settings convertor used to resolve template definition.
+ * @param templateId - Identifier of the code generator template.
+ * @returns Template definition, or undefined if template does not exist.
+ */
+export function resolveTemplateDefinition(convertor: ICodeGeneratorSettingsConvertor, templateId: string): TemplateMetadataDefinition | undefined {
+    return convertor.getTemplateDefinition ? convertor.getTemplateDefinition(templateId) : HbsTemplateManager.getTemplateDefinition(templateId);
+}
 
 export class CodeGeneratorSettingsConvertor implements ICodeGeneratorSettingsConvertor {
+    private readonly _templateManager: HbsTemplateManager | undefined;
+
+    /**
+     * Creates new settings convertor.
+     * @param templateManager - Template manager used to resolve template definitions,
+     * when not specified default template manager (`HbsTemplateManager.default`) is used.
+     */
+    constructor(templateManager?: HbsTemplateManager) {
+        this._templateManager = templateManager;
+    }
+
+    private get templateManager(): HbsTemplateManager {
+        return this._templateManager ?? HbsTemplateManager.default;
+    }
+
+    public getTemplateDefinition(templateId: string): TemplateMetadataDefinition | undefined {
+        return this.templateManager.getTemplateDefinition(templateId);
+    }
+
     public convertValueForProperty(value: unknown, property: TemplateMetadataGroupSettings): unknown {
         if (value === undefined || value === null) {
             return property.default;
@@ -60,7 +97,7 @@ export class CodeGeneratorSettingsConvertor implements ICodeGeneratorSettingsCon
             throw new Error(`Node cannot be null.`);
         }
 
-        const definition = HbsTemplateManager.getTemplateDefinition(templateId);
+        const definition = this.templateManager.getTemplateDefinition(templateId);
         if (!definition) {
             throw new Error(`Template definition for '${templateId}' not found.`);
         }
@@ -116,7 +153,7 @@ export class CodeGeneratorSettingsConvertor implements ICodeGeneratorSettingsCon
             const groupSettings = settings[group];
             if (groupSettings && typeof groupSettings === 'object' && Object.prototype.hasOwnProperty.call(groupSettings, property)) {
                 const value = groupSettings[property];
-                const error = this.validateSetting(templateId, group, property, value, false);
+                const error = this.validateSetting(templateId, group, property, value, false, settings);
                 return { value, isValid: isNullOrEmpty(error) };
             }
         }
@@ -141,13 +178,13 @@ export class CodeGeneratorSettingsConvertor implements ICodeGeneratorSettingsCon
             throw new Error('Property cannot be null or empty.');
         }
 
-        const error = this.validateSetting(templateId, group, property, value, false);
+        const error = this.validateSetting(templateId, group, property, value, false, settings);
         if (isNullOrEmpty(error)) {
             if (!Object.prototype.hasOwnProperty.call(settings, group)) {
                 settings[group] = {};
             }
 
-            const definition = HbsTemplateManager.getTemplateDefinition(templateId)!;
+            const definition = this.templateManager.getTemplateDefinition(templateId)!;
 
             if (Object.prototype.hasOwnProperty.call(definition.settings, group)) {
                 const groupSettings = definition.settings[group].properties;
@@ -164,7 +201,8 @@ export class CodeGeneratorSettingsConvertor implements ICodeGeneratorSettingsCon
         return false;
     }
 
-    public validateSetting(templateId: string, group: string, property: string, value: unknown, throwErr?: boolean): TemplateMetadataSettingValidationResult | undefined {
+    public validateSetting(templateId: string, group: string, property: string, value: unknown, throwErr?: boolean,
+        settings?: CodeGeneratorGroupSettings): TemplateMetadataSettingValidationResult | undefined {
         throwErr = throwErr ?? true;
 
         if (isNullOrEmpty(templateId)) {
@@ -179,7 +217,7 @@ export class CodeGeneratorSettingsConvertor implements ICodeGeneratorSettingsCon
             throw new Error('Property cannot be null or empty.');
         }
 
-        const definition = HbsTemplateManager.getTemplateDefinition(templateId);
+        const definition = this.templateManager.getTemplateDefinition(templateId);
         if (!definition) {
             if (throwErr) {
                 throw new Error(`Template definition for '${templateId}' not found.`);
@@ -190,7 +228,7 @@ export class CodeGeneratorSettingsConvertor implements ICodeGeneratorSettingsCon
         if (Object.prototype.hasOwnProperty.call(definition.settings, group)) {
             const propertyDef = definition.settings[group].properties.find(x => x.name === property);
 
-            return this.validateProperty(group, propertyDef, value);
+            return this.validateProperty(group, propertyDef, value, { definition, settings: settings ?? {} });
         }
 
         if (throwErr) {
@@ -200,7 +238,7 @@ export class CodeGeneratorSettingsConvertor implements ICodeGeneratorSettingsCon
         return undefined;
     }
 
-    public validateSettings(templateId: string, settings: CodeGeneratorGroupSettings): CodeGeneratorValidateResult {
+    public validateSettings(templateId: string, settings: CodeGeneratorGroupSettings, context?: CodeGeneratorSettingsContext): CodeGeneratorValidateResult {
         if (isNullOrEmpty(templateId)) {
             throw new Error('Template id cannot be null or empty.');
         }
@@ -209,17 +247,18 @@ export class CodeGeneratorSettingsConvertor implements ICodeGeneratorSettingsCon
             throw new Error(`Settings cannot be null.`);
         }
 
-        const definition = HbsTemplateManager.getTemplateDefinition(templateId);
+        const definition = this.templateManager.getTemplateDefinition(templateId);
         if (!definition) {
             throw new Error(`Template definition for '${templateId}' not found.`);
         }
 
+        const rulesContext: SettingsRulesContext = { definition, settings, context };
         for (const [group, groupSettings] of Object.entries(settings)) {
             if (groupSettings && typeof groupSettings === 'object') {
                 for (const [name, value] of Object.entries(groupSettings)) {
                     if (Object.prototype.hasOwnProperty.call(definition.settings, group)) {
                         const property = definition.settings[group].properties.find(x => x.name === name);
-                        const valRes = this.validateProperty(group, property, value);
+                        const valRes = this.validateProperty(group, property, value, rulesContext);
                         if (valRes && !isNullOrEmpty(valRes.error)) {
                             return { group, error: valRes.error, errorCode: valRes.errorCode, property: property!.name };
                         }
@@ -231,30 +270,254 @@ export class CodeGeneratorSettingsConvertor implements ICodeGeneratorSettingsCon
         return { group: '', property: '', error: undefined, errorCode: undefined };
     }
 
-    private validateProperty(group: string, property: TemplateMetadataGroupSettings | undefined, value: unknown): TemplateMetadataSettingValidationResult {
+    public validateAllSettings(templateId: string, settings: CodeGeneratorGroupSettings, context?: CodeGeneratorSettingsContext): CodeGeneratorValidateResult[] {
+        if (isNullOrEmpty(templateId)) {
+            throw new Error('Template id cannot be null or empty.');
+        }
+
+        if (!settings) {
+            throw new Error(`Settings cannot be null.`);
+        }
+
+        const definition = this.templateManager.getTemplateDefinition(templateId);
+        if (!definition) {
+            throw new Error(`Template definition for '${templateId}' not found.`);
+        }
+
+        const rulesContext: SettingsRulesContext = { definition, settings, context };
+        const result: CodeGeneratorValidateResult[] = [];
+        for (const [group, groupDefinition] of Object.entries(definition.settings)) {
+            for (const property of groupDefinition.properties) {
+                const value = this.resolveSettingValue(`${group}.${property.name}`, group, rulesContext);
+
+                this.validatePropertyAll(group, property, value, rulesContext).forEach(valRes => {
+                    result.push({ group, property: property.name, error: valRes.error, errorCode: valRes.errorCode });
+                });
+            }
+        }
+
+        return result;
+    }
+
+    public getPropertyState(templateId: string, settings: CodeGeneratorGroupSettings, group: string, property: string): CodeGeneratorPropertyState | undefined {
+        if (isNullOrEmpty(templateId)) {
+            throw new Error('Template id cannot be null or empty.');
+        }
+
+        if (!settings) {
+            throw new Error(`Settings cannot be null.`);
+        }
+
+        const definition = this.templateManager.getTemplateDefinition(templateId);
+        if (!definition) {
+            throw new Error(`Template definition for '${templateId}' not found.`);
+        }
+
+        const propertyDef = definition.settings[group]?.properties.find(x => x.name === property);
+        if (!propertyDef) {
+            return undefined;
+        }
+
+        const rulesContext: SettingsRulesContext = { definition, settings };
+        return {
+            visible: this.isPropertyVisible(group, propertyDef, rulesContext),
+            required: this.isPropertyRequired(group, propertyDef, rulesContext)
+        };
+    }
+
+    /**
+     * Migrates settings node (as stored in LHQ model file) of specific template from older template version to current version,
+     * by applying template migrations (defined in templates metadata) in order of their versions.
+     * @param templateId - Identifier of the code generator template.
+     * @param node - Settings node to migrate (modified in place), each child node represents one settings group with properties as attributes.
+     * @param version - Template version of settings stored in node.
+     * @returns Human readable list of applied changes.
+     * @throws Error if template definition was not found or settings version is newer than template version.
+     */
+    public migrateSettingsNode(templateId: string, node: LhqModelDataNode, version: number): string[] {
+        const definition = this.templateManager.getTemplateDefinition(templateId);
+        if (!definition) {
+            throw new Error(`Template definition for '${templateId}' not found.`);
+        }
+
+        if (version > definition.version) {
+            throw new Error(`Settings version ${version} of template '${templateId}' is newer than supported version ${definition.version}.`);
+        }
+
+        const changes: string[] = [];
+        const migrations = (definition.migrations ?? []).filter(x => x.version > version && x.version <= definition.version);
+        for (const migration of arraySortBy(migrations, x => x.version)) {
+            const prefix = `Template '${templateId}' settings (version ${migration.version})`;
+
+            for (const change of migration.changes) {
+                const groupNode = this.getSettingsGroupNode(node, change.group, change.action === 'set');
+                const attrs: Record<string, string | null | undefined> = groupNode?.attrs ?? {};
+                const hasValue = Object.prototype.hasOwnProperty.call(attrs, change.property);
+                const settingName = `${change.group}.${change.property}`;
+
+                switch (change.action) {
+                    case 'rename':
+                        if (hasValue) {
+                            const toGroup = change.toGroup ?? change.group;
+                            const targetNode = this.getSettingsGroupNode(node, toGroup, true)!;
+                            targetNode.attrs![change.to] = attrs[change.property];
+                            delete attrs[change.property];
+                            changes.push(`${prefix}: '${settingName}' renamed to '${toGroup}.${change.to}'.`);
+                        }
+                        break;
+                    case 'remove':
+                        if (hasValue) {
+                            delete attrs[change.property];
+                            changes.push(`${prefix}: '${settingName}' removed.`);
+                        }
+                        break;
+                    case 'map': {
+                        // null value (attribute without value) is never mapped
+                        const oldValue = attrs[change.property];
+                        if (hasValue && !isNullOrUndefined(oldValue) && Object.prototype.hasOwnProperty.call(change.values, oldValue)) {
+                            attrs[change.property] = change.values[oldValue];
+                            changes.push(`${prefix}: '${settingName}' value changed from '${oldValue}' to '${change.values[oldValue]}'.`);
+                        }
+                        break;
+                    }
+                    case 'set': {
+                        // values are stored as strings in model file (booleans in lower case)
+                        const value = typeof change.value === 'string' ? change.value : String(change.value).toLowerCase();
+                        groupNode!.attrs![change.property] = value;
+                        changes.push(`${prefix}: '${settingName}' set to '${value}'.`);
+                        break;
+                    }
+                }
+            }
+        }
+
+        return changes;
+    }
+
+    private getSettingsGroupNode(node: LhqModelDataNode, group: string, create: boolean): LhqModelDataNode | undefined {
+        node.childs ??= [];
+        let groupNode = node.childs.find(x => x.name === group);
+        if (!groupNode && create) {
+            groupNode = { name: group, attrs: {} };
+            node.childs.push(groupNode);
+        }
+
+        if (groupNode) {
+            groupNode.attrs ??= {};
+        }
+
+        return groupNode;
+    }
+
+    private isPropertyVisible(group: string, property: TemplateMetadataGroupSettings, rulesContext: SettingsRulesContext): boolean {
+        return property.visibleWhen === undefined || this.evaluateCondition(property.visibleWhen, group, rulesContext);
+    }
+
+    private isPropertyRequired(group: string, property: TemplateMetadataGroupSettings, rulesContext: SettingsRulesContext): boolean {
+        return property.requiredWhen === undefined
+            ? property.required
+            : this.evaluateCondition(property.requiredWhen, group, rulesContext);
+    }
+
+    private evaluateCondition(condition: TemplateMetadataSettingCondition, group: string, rulesContext: SettingsRulesContext): boolean {
+        const value = String(this.resolveSettingValue(condition.setting, group, rulesContext));
+
+        if (condition.equals !== undefined && value !== String(condition.equals)) {
+            return false;
+        }
+
+        return condition.notEquals === undefined || value !== String(condition.notEquals);
+    }
+
+    // resolves value of setting reference ('Property', 'Group.Property' or '@model.name'), missing settings are resolved as their default value
+    private resolveSettingValue(reference: string, group: string, rulesContext: SettingsRulesContext): unknown {
+        if (reference === '@model.name') {
+            return rulesContext.context?.modelName;
+        }
+
+        const [refGroup, refProperty] = reference.indexOf('.') > -1 ? reference.split('.') : [group, reference];
+        const groupSettings = rulesContext.settings[refGroup];
+        if (groupSettings && typeof groupSettings === 'object' && Object.prototype.hasOwnProperty.call(groupSettings, refProperty)) {
+            return groupSettings[refProperty];
+        }
+
+        return rulesContext.definition.settings[refGroup]?.properties.find(x => x.name === refProperty)?.default ?? undefined;
+    }
+
+    private validateProperty(group: string, property: TemplateMetadataGroupSettings | undefined, value: unknown,
+        rulesContext: SettingsRulesContext): TemplateMetadataSettingValidationResult {
+        const errors = this.validatePropertyAll(group, property, value, rulesContext);
+        return errors.length > 0 ? errors[0] : undefined;
+    }
+
+    private isValidatorMet(validator: TemplateMetadataSettingValidator, value: unknown): boolean {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        const strValue: string = typeof value === 'string' ? value : (value as any).toString();
+
+        if (validator.regex !== undefined && !new RegExp(validator.regex, validator.flags).test(strValue)) {
+            return false;
+        }
+
+        if (validator.min !== undefined || validator.max !== undefined) {
+            const numValue = typeof value === 'number' ? value : (strValue.trim() === '' ? NaN : Number(strValue));
+            if (isNaN(numValue) ||
+                (validator.min !== undefined && numValue < validator.min) ||
+                (validator.max !== undefined && numValue > validator.max)) {
+                return false;
+            }
+        }
+
+        if ((validator.minLength !== undefined && strValue.length < validator.minLength) ||
+            (validator.maxLength !== undefined && strValue.length > validator.maxLength)) {
+            return false;
+        }
+
+        return validator.allowedValues === undefined || validator.allowedValues.some(x => String(x) === strValue);
+    }
+
+    // returns all failing validators and rules of property (or only 'required' error when value is missing)
+    private validatePropertyAll(group: string, property: TemplateMetadataGroupSettings | undefined, value: unknown,
+        rulesContext: SettingsRulesContext): NonNullable<TemplateMetadataSettingValidationResult>[] {
+        const result: NonNullable<TemplateMetadataSettingValidationResult>[] = [];
+
         if (property) {
+            if (!this.isPropertyVisible(group, property, rulesContext)) {
+                return result;
+            }
+
             // eslint-disable-next-line @typescript-eslint/no-base-to-string
-            if (property.required && (isNullOrEmpty(value) || (property.type === 'string' && value.toString().trim() === ''))) {
-                return {
+            const isEmpty = isNullOrEmpty(value) || (property.type === 'string' && value.toString().trim() === '');
+            if (isEmpty && this.isPropertyRequired(group, property, rulesContext)) {
+                result.push({
                     error: `${group} / '${property.name}' value is required.`,
                     errorCode: `${group.toLowerCase()}.${property.name.toLowerCase()}.missing`
-                };
+                });
+                return result;
+            }
+
+            // conditionally required property is not validated when not required and empty
+            if (isEmpty && property.requiredWhen !== undefined) {
+                return result;
             }
 
-            if (property.validators && property.validators.length > 0) {
-                // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
-                const strValue = typeof value === 'string' ? value : (value as any).toString();
+            if (property.validators && property.validators.length > 0 && !isNullOrUndefined(value)) {
                 for (const validator of property.validators) {
-                    const regex = new RegExp(validator.regex, validator.flags);
-                    // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-                    if (!regex.test(strValue)) {
-                        return validator;
+                    if (!this.isValidatorMet(validator, value)) {
+                        result.push({ error: validator.error, errorCode: validator.errorCode });
                     }
                 }
             }
+
+            if (property.differsFrom && !isEmpty) {
+                const otherValue = this.resolveSettingValue(property.differsFrom.setting, group, rulesContext);
+                // eslint-disable-next-line @typescript-eslint/no-base-to-string
+                if (!isNullOrEmpty(otherValue) && String(otherValue).toLowerCase() === String(value).toLowerCase()) {
+                    result.push({ error: property.differsFrom.error, errorCode: property.differsFrom.errorCode });
+                }
+            }
         }
 
-        return undefined;
+        return result;
     }
 
     public settingsToNode(templateId: string, settings: CodeGeneratorGroupSettings): LhqModelDataNode {
@@ -266,7 +529,7 @@ export class CodeGeneratorSettingsConvertor implements ICodeGeneratorSettingsCon
             throw new Error(`Settings cannot be null.`);
         }
 
-        const definition = HbsTemplateManager.getTemplateDefinition(templateId);
+        const definition = this.templateManager.getTemplateDefinition(templateId);
         if (!definition) {
             throw new Error(`Template definition for '${templateId}' not found.`);
         }
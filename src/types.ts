@@ -1,6 +1,8 @@
-import type { IRootModelElement, ITreeElementPaths } from './api';
+import type { ICodeGeneratorSettingsConvertor, IRootModelElement, ITreeElementPaths } from './api';
 import type { LhqModel, LhqModelLineEndings } from './api/schemas';
 import type { TemplatesMetadata } from './api/templates';
+import type { HelperOptions } from 'handlebars';
+import type { TemplateRootModel } from './model/templateRootModel';
 
 export type IndentationType = {
     /**
@@ -33,7 +35,7 @@ export interface IHostEnvironment {
     pathCombine(path1: string, path2: string): string;
 }
 
-export type GeneratorInitialization = {
+export type GeneratorTemplates = {
     /**
      * Handlebars templates, where each key represents 'templateId' (unique identifier) and value represents handlebars template content.
      */
@@ -43,13 +45,97 @@ export type GeneratorInitialization = {
      * Metadata of available templates, including settings and templates definitions.
      */
     templatesMetadata: TemplatesMetadata;
+}
 
+export type GeneratorInitialization = GeneratorTemplates & {
     /**
      * Host environment with which generator interacts when running code templates.
      */
     hostEnvironment: IHostEnvironment;
+
+    /**
+     * Optional extra (user supplied) templates registered in addition to built-in templates.
+     * 
+     * Metadata of extra templates are merged with built-in metadata, so extra templates can reuse
+     * built-in settings groups (e.g. `CSharp`, `ResX`) in addition to their own settings groups.
+     * Template ids and settings group names must be unique across all templates.
+     */
+    customTemplates?: GeneratorTemplates[];
+
+    /**
+     * Optional extra (user supplied) handlebars helpers registered in addition to built-in helpers.
+     * 
+     * Each helper is registered with name `<prefix>-<name>` (e.g. `acme-marketId`), prefixes of built-in helpers (e.g. `x`, `m`) are reserved.
+     */
+    customHelpers?: CustomHelpers;
 }
 
+/**
+ * Context passed as first argument to custom handlebars helper.
+ */
+export type CustomHelperContext = {
+    /**
+     * Root model of currently running template (LHQ model, code generator settings, host data, etc.).
+     */
+    root: TemplateRootModel;
+
+    /**
+     * Host environment with which generator interacts when running code templates.
+     */
+    hostEnvironment: IHostEnvironment;
+
+    /**
+     * Current handlebars context (`this` of helper call), e.g. current item inside `{{#each}}` block.
+     * Block helpers render their content with it, e.g. `options.fn(context.context)`.
+     */
+    context: unknown;
+
+    /**
+     * Named arguments of helper call, e.g. `{ culture: 'en' }` for `{{acme-marketId culture="en"}}`.
+     */
+    hash: Record<string, unknown>;
+
+    /**
+     * Raw handlebars helper options (e.g. `fn` and `inverse` for block helpers).
+     */
+    options: HelperOptions;
+};
+
+/**
+ * Custom handlebars helper, receives helper context followed by positional arguments of helper call.
+ */
+export type CustomHelperDelegate = (context: CustomHelperContext, ...args: unknown[]) => unknown;
+
+export type CustomHelpers = {
+    /**
+     * Prefix of helper names (e.g. `acme`), each helper is registered as `<prefix>-<name>`.
+     */
+    prefix: string;
+
+    /**
+     * Custom helpers, where each key represents helper name (without prefix).
+     */
+    helpers: Record<string, CustomHelperDelegate>;
+}
+
+/**
+ * Options for generating JSON schema of template settings.
+ */
+export type TemplateSettingsSchemaOptions = {
+    /**
+     * When `true`, setting values are described as strings (e.g. `"true"`, `"4"`).
+     * Default is `false` where values are described with their own types (boolean, number, string).
+     */
+    stringValues?: boolean;
+
+    /**
+     * When `true`, schema describes `content` node of template in `metadatas` node of LHQ file
+     * (settings groups are `Settings` child nodes with setting values as string attributes), `stringValues` is implied.
+     * Default is `false` where schema describes settings object (e.g. `{ "CSharp": { "Namespace": "MyApp" } }`).
+     */
+    metadataNode?: boolean;
+};
+
 /**
  * Represents the result of a model validation.
  */
@@ -69,8 +155,68 @@ export type LhqValidationResult = {
      * Represents the validated LHQ model if the validation was successful.
      */
     model?: LhqModel;
+
+    /**
+     * List of all validation issues found, empty if the validation was successful.
+     */
+    issues: LhqValidationIssue[];
 }
 
+/**
+ * Severity of the validation issue.
+ */
+export type LhqValidationIssueSeverity = 'error' | 'warning';
+
+/**
+ * Represents single issue found by model validation.
+ */
+export type LhqValidationIssue = {
+    /**
+     * JSON path (property names and array indexes separated by dot) to invalid element,
+     * e.g. `categories.Cars.resources.Skoda.values.sk` or empty string for root element.
+     */
+    path: string;
+
+    /**
+     * Stable error code, e.g. `json.parseError`, `model.versionUnsupported` or `schema.<code>`
+     * where `<code>` is schema issue code (e.g. `schema.invalid_type`, `schema.unrecognized_keys`).
+     */
+    code: string;
+
+    /**
+     * Severity of the issue.
+     */
+    severity: LhqValidationIssueSeverity;
+
+    /**
+     * Human readable description of the issue.
+     */
+    message: string;
+
+    /**
+     * Line number (1-based) of the issue in source JSON string, available only when model was validated from string.
+     */
+    line?: number;
+
+    /**
+     * Column number (1-based) of the issue in source JSON string, available only when model was validated from string.
+     */
+    column?: number;
+}
+
+export type UpgradeModelOptions = {
+    /**
+     * When `true`, upgrade only reports changes which would be made, upgraded model is not returned.
+     */
+    dryRun?: boolean;
+
+    /**
+     * Optional settings convertor (e.g. `generator.settingsConvertor`) used to resolve template definitions and migrate settings,
+     * when not specified default convertor (using templates initialized by `Generator.initialize`) is used.
+     */
+    settingsConvertor?: ICodeGeneratorSettingsConvertor;
+};
+
 /**
  * Represents the result of a model upgrade.
  */
@@ -87,17 +233,38 @@ export type UpgradeModelResult = {
     error: string | undefined;
 
     /**
-     * Represents the upgraded LHQ model if the upgrade was successful.
+     * Represents the upgraded LHQ model (raw data) if the upgrade was successful and was not a dry run.
      */
-    // model?: LhqModel;
+    model?: LhqModel;
 
+    /**
+     * Represents the upgraded root model element if the upgrade was successful and was not a dry run
+     * (only when upgraded by `ModelUtils.upgradeModel`).
+     */
     rootModel?: IRootModelElement;
+
+    /**
+     * Human readable list of changes made by the upgrade (e.g. migrated code generator settings).
+     */
+    changes: string[];
 }
 
+/**
+ * Source of the namespace found in C# project file:
+ * - `customToolNamespace` - `<CustomToolNamespace>` element of the T4 file item (used as is)
+ * - `rootNamespace` - `<RootNamespace>` element
+ * - `assemblyName` - `<AssemblyName>` element
+ * - `projectFileName` - name of the C# project file
+ *
+ * Except for `customToolNamespace`, relative folder of the `LHQ` model file (below project directory) is appended to the namespace.
+ */
+export type CSharpNamespaceSource = 'customToolNamespace' | 'rootNamespace' | 'assemblyName' | 'projectFileName';
+
 export type CSharpNamespaceInfo = {
     csProjectFileName: FileInfo;
     t4FileName: string;
     namespace: string | undefined;
+    namespaceSource?: CSharpNamespaceSource;
     referencedLhqFile: boolean;
     referencedT4File: boolean;
     namespaceDynamicExpression: boolean;
@@ -110,6 +277,16 @@ export type TextEncodeOptions =
 
 export type TextEncodeModes = Extract<TextEncodeOptions, { mode: unknown }>['mode'];
 
+/**
+ * Case of text (e.g. identifier), `original` keeps text unchanged.
+ * - `camel` - e.g. `oldKia`
+ * - `pascal` - e.g. `OldKia`
+ * - `snake` - e.g. `old_kia`
+ * - `kebab` - e.g. `old-kia`
+ * - `screaming` - e.g. `OLD_KIA`
+ */
+export type TextCase = 'original' | 'camel' | 'pascal' | 'snake' | 'kebab' | 'screaming';
+
 export type FileInfo = {
     exist: boolean;
     full: string;
@@ -234,8 +411,51 @@ export type ImportResourceItem = {
     values: Array<{ language: string, value: string }>;
 }
 
+export type UpdateCsProjectItemsOptions = {
+    /**
+     * Paths of generated files (relative to C# project directory, eg: `Resources/Strings.gen.cs`).
+     */
+    generatedFiles: string[];
+
+    /**
+     * Paths of files which are not generated anymore (relative to C# project directory), their items are removed from project.
+     */
+    removedFiles?: string[];
+
+    /**
+     * Path of `LHQ` model file (relative to C# project directory), generated files in the same folder depends on it (`<DependentUpon>`).
+     */
+    lhqModelFile?: string;
+}
+
+export type UpdateCsProjectItemsResult = {
+    /**
+     * Updated content of the C# project file (same as source when nothing was changed).
+     */
+    content: string;
+
+    /**
+     * `true` when C# project is SDK-style project which is never updated.
+     */
+    sdkStyle: boolean;
+
+    /**
+     * Paths (as written in `Include` attribute) of added items.
+     */
+    addedItems: string[];
+
+    /**
+     * Paths (as written in `Include` attribute) of removed items.
+     */
+    removedItems: string[];
+}
+
 export type FindNamespaceOptions = {
     lhqModelFile: FileInfo;
     csProjectFiles: FileInfo[];
+    /**
+     * `Directory.Build.props` files (with loaded content) used to evaluate MSBuild properties in `RootNamespace` of C# project files.
+     */
+    directoryBuildPropsFiles?: FileInfo[];
     allowFileName?: boolean;
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { search as jmespath } from 'jmespath';
-import type { FormattingOptions, IndentationType, KeysMatching, LineEOL, TextEncodeOptions } from './types';
+import type { FormattingOptions, IndentationType, KeysMatching, LineEOL, TextCase, TextEncodeOptions } from './types';
 import type { LhqModelLineEndings } from '.';
 
 import detectIndent from 'detect-indent';
@@ -8,6 +8,8 @@ import { ResourceValueValidations } from './model/modelConst';
 
 const regexLF = new RegExp('\\r\\n|\\r', 'g');
 const regexCRLF = new RegExp('(\\r(?!\\n))|((?<!\\r)\\n)', 'g');
+// words of text, eg: 'Old_Kia' -> ['Old', 'Kia'], 'ToyotaEV2Model' -> ['Toyota', 'EV2', 'Model'] (digits are kept with preceding word)
+const regexWords = /[A-Z]+[0-9]*(?![a-z])|[A-Z]?[a-z]+[0-9]*|[0-9]+/g;
 
 
 const encodingCharMaps = {
@@ -522,6 +524,47 @@ export function removeNewLines(input: string): string {
     return input.replace(/\r\n|\r|\n/g, '');
 }
 
+/**
+ * Converts text (e.g. element name) into the specified case.
+ * Text is split into words on non alphanumeric characters and on lower to upper case changes, digits are kept with preceding word.
+ *
+ * @param value - The text to convert.
+ * @param textCase - The target case, `original` returns text unchanged.
+ * @returns The converted text, e.g. for `Old_Kia`: `oldKia` (camel), `OldKia` (pascal), `old_kia` (snake), `old-kia` (kebab), `OLD_KIA` (screaming).
+ */
+export function changeCase(value: string, textCase: TextCase): string {
+    if (isNullOrEmpty(value) || textCase === 'original') return value;
+
+    const words = value.match(regexWords) ?? [];
+    const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.substring(1).toLowerCase();
+
+    switch (textCase) {
+        case 'camel':
+            return words.map((word, index) => index === 0 ? word.toLowerCase() : capitalize(word)).join('');
+        case 'pascal':
+            return words.map(capitalize).join('');
+        case 'snake':
+            return words.map(word => word.toLowerCase()).join('_');
+        case 'kebab':
+            return words.map(word => word.toLowerCase()).join('-');
+        case 'screaming':
+            return words.map(word => word.toUpperCase()).join('_');
+    }
+}
+
+/**
+ * Sanitizes text to be valid identifier (in C#, VB.NET, TypeScript, Java, Kotlin, Swift, etc.).
+ * Characters other than letters, digits and underscore are replaced by underscore and identifier starting with digit is prefixed by underscore.
+ *
+ * @param value - The text to sanitize.
+ * @param textCase - Optional case to convert text into before sanitization, default is `original`.
+ * @returns The valid identifier, e.g. `_1st_Item` for `1st Item`.
+ */
+export function toIdentifier(value: string, textCase: TextCase = 'original'): string {
+    const identifier = changeCase(value ?? '', textCase).replace(/[^\w]/g, '_');
+    return identifier === '' || /^\d/.test(identifier) ? `_${identifier}` : identifier;
+}
+
 /**
  * Removes specified properties from an object.
  *
@@ -609,4 +652,210 @@ export function sanitizeUnsupportedUnicodeChars(value: string): string {
 
     return value.replace(ResourceValueValidations.nonBreakingSpace, ' ')
         .replace(ResourceValueValidations.noSupportedChars, '');
+}
+
+/**
+ * Returns a promise which resolves on next event loop cycle (macrotask), so pending events (UI, I/O) can be processed.
+ */
+export function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+type LineDiffOp = { op: ' ' | '-' | '+'; line: string };
+
+// Myers diff algorithm in linear space (divide and conquer by middle snake),
+// returns list of operations which transforms `a` lines to `b` lines
+function diffLines(a: string[], b: string[]): LineDiffOp[] {
+    const ops: LineDiffOp[] = [];
+    diffRange(a, 0, a.length, b, 0, b.length, ops);
+
+    // within each block of changes, removed lines are listed before added ones
+    const result: LineDiffOp[] = [];
+    let added: LineDiffOp[] = [];
+    for (const item of ops) {
+        if (item.op === '+') {
+            added.push(item);
+            continue;
+        }
+
+        if (item.op === ' ' && added.length > 0) {
+            result.push(...added);
+            added = [];
+        }
+
+        result.push(item);
+    }
+
+    result.push(...added);
+    return result;
+}
+
+function diffRange(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number, result: LineDiffOp[]): void {
+    // common prefix and suffix are never part of the edit script
+    while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+        result.push({ op: ' ', line: a[aStart] });
+        aStart++;
+        bStart++;
+    }
+
+    let suffix = 0;
+    while (aStart < aEnd - suffix && bStart < bEnd - suffix && a[aEnd - suffix - 1] === b[bEnd - suffix - 1]) {
+        suffix++;
+    }
+    aEnd -= suffix;
+    bEnd -= suffix;
+
+    const split = aStart === aEnd || bStart === bEnd ? undefined : findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+    if (split) {
+        diffRange(a, aStart, split.x, b, bStart, split.y, result);
+        diffRange(a, split.x, aEnd, b, split.y, bEnd, result);
+    } else {
+        for (let i = aStart; i < aEnd; i++) {
+            result.push({ op: '-', line: a[i] });
+        }
+
+        for (let i = bStart; i < bEnd; i++) {
+            result.push({ op: '+', line: b[i] });
+        }
+    }
+
+    for (let i = aEnd; i < aEnd + suffix; i++) {
+        result.push({ op: ' ', line: a[i] });
+    }
+}
+
+// searches for D-path from both ends at once, returns point where forward and reverse paths overlap
+// (used to split the problem into two halves) or `undefined` when ranges have no common line
+function findMiddleSnake(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number): { x: number; y: number } | undefined {
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    const maxD = Math.ceil((n + m) / 2);
+    const offset = maxD + 1;
+    const delta = n - m;
+    const oddDelta = delta % 2 !== 0;
+    // furthest reaching x on diagonal k for forward (vf) and reverse (vr) paths
+    const vf = new Int32Array(2 * offset + 1).fill(-1);
+    const vr = new Int32Array(2 * offset + 1).fill(-1);
+    vf[offset + 1] = 0;
+    vr[offset + 1] = 0;
+
+    // diagonals which left the grid are not explored anymore
+    let fStart = 0, fEnd = 0, rStart = 0, rEnd = 0;
+
+    for (let d = 0; d < maxD; d++) {
+        for (let k = -d + fStart; k <= d - fEnd; k += 2) {
+            let x = (k === -d || (k !== d && vf[offset + k - 1] < vf[offset + k + 1]))
+                ? vf[offset + k + 1]
+                : vf[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+                x++;
+                y++;
+            }
+
+            vf[offset + k] = x;
+            if (x > n) {
+                fEnd += 2;
+            } else if (y > m) {
+                fStart += 2;
+            } else if (oddDelta) {
+                const rk = offset + delta - k;
+                if (rk >= 0 && rk < vr.length && vr[rk] !== -1 && x + vr[rk] >= n) {
+                    return { x: aStart + x, y: bStart + y };
+                }
+            }
+        }
+
+        for (let k = -d + rStart; k <= d - rEnd; k += 2) {
+            let x = (k === -d || (k !== d && vr[offset + k - 1] < vr[offset + k + 1]))
+                ? vr[offset + k + 1]
+                : vr[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+                x++;
+                y++;
+            }
+
+            vr[offset + k] = x;
+            if (x > n) {
+                rEnd += 2;
+            } else if (y > m) {
+                rStart += 2;
+            } else if (!oddDelta) {
+                const fk = offset + delta - k;
+                if (fk >= 0 && fk < vf.length && vf[fk] !== -1 && x + vf[fk] >= n) {
+                    return { x: aStart + vf[fk], y: bStart + vf[fk] - (fk - offset) };
+                }
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Creates unified diff (as produced by `diff -u`) of two texts compared line by line.
+ *
+ * @param oldText - The original text.
+ * @param newText - The new text.
+ * @param oldFileName - File name of original text written in diff header.
+ * @param newFileName - File name of new text written in diff header.
+ * @param contextLines - Number of unchanged lines shown around each change.
+ * @returns The unified diff, or empty string if texts have same lines.
+ * @example
+ *
+ * const diff = createUnifiedDiff(['a', 'b'].join(EOL), ['a', 'c'].join(EOL), 'Strings.cs', 'Strings.cs (generated)');
+ * // --- Strings.cs
+ * // +++ Strings.cs (generated)
+ * // \@\@ -1,2 +1,2 \@\@
+ * //  a
+ * // -b
+ * // +c
+ */
+export function createUnifiedDiff(oldText: string, newText: string, oldFileName: string, newFileName: string, contextLines: number = 3): string {
+    const splitLines = (text: string): string[] => text.length === 0 ? [] : text.split(/\r\n|\r|\n/);
+    const ops = diffLines(splitLines(oldText), splitLines(newText));
+    const changes = ops.map((x, idx) => x.op === ' ' ? -1 : idx).filter(idx => idx > -1);
+    if (changes.length === 0) {
+        return '';
+    }
+
+    // group changes (with context lines around) into hunks, close changes are merged into one hunk
+    const hunks: Array<{ start: number; end: number }> = [];
+    for (const idx of changes) {
+        const start = Math.max(0, idx - contextLines);
+        const end = Math.min(ops.length - 1, idx + contextLines);
+        const last = hunks.length > 0 ? hunks[hunks.length - 1] : undefined;
+        if (last && start <= last.end + 1) {
+            last.end = end;
+        } else {
+            hunks.push({ start, end });
+        }
+    }
+
+    const lines = [`--- ${oldFileName}`, `+++ ${newFileName}`];
+    let opIdx = 0;
+    let oldLine = 0;
+    let newLine = 0;
+    for (const hunk of hunks) {
+        for (; opIdx < hunk.start; opIdx++) {
+            oldLine++;
+            newLine++;
+        }
+
+        const hunkOps = ops.slice(hunk.start, hunk.end + 1);
+        const oldCount = hunkOps.filter(x => x.op !== '+').length;
+        const newCount = hunkOps.filter(x => x.op !== '-').length;
+        const oldStart = oldCount === 0 ? oldLine : oldLine + 1;
+        const newStart = newCount === 0 ? newLine : newLine + 1;
+
+        lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+        hunkOps.forEach(x => lines.push(x.op + x.line));
+
+        oldLine += oldCount;
+        newLine += newCount;
+        opIdx = hunk.end + 1;
+    }
+
+    return lines.join('\n');
 }
\ No newline at end of file
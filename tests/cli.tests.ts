@@ -0,0 +1,201 @@
+import path from 'node:path';
+import os from 'node:os';
+import { spawnSync } from 'node:child_process';
+import fse from 'fs-extra';
+import { expect } from 'chai';
+
+import type { LhqModel } from '../src/index.js';
+import { folders, safeReadFile } from './testUtils.js';
+
+type CliResult = {
+    exitCode: number | null;
+    output: string;
+};
+
+setTimeout(async () => {
+    const rootDir = path.resolve(folders().cwd, '..');
+    const cliFileName = path.join(rootDir, 'src', 'cli.ts');
+
+    function runCli(...args: string[]): CliResult {
+        const result = spawnSync(process.execPath, ['--import', 'tsx', cliFileName, ...args, '--no-color'], {
+            cwd: rootDir,
+            env: { ...process.env, INIT_CWD: rootDir },
+            encoding: 'utf-8',
+            timeout: 60000
+        });
+
+        return { exitCode: result.status, output: `${result.stdout}${result.stderr}` };
+    }
+
+
+    describe('CLI', function () {
+        this.timeout(120000);
+
+        const tempDirs: string[] = [];
+
+        after(async () => {
+            await Promise.all(tempDirs.map(dir => fse.remove(dir)));
+        });
+
+        async function createTempDir(): Promise<string> {
+            const dir = await fse.mkdtemp(path.join(os.tmpdir(), 'lhq-cli-'));
+            tempDirs.push(dir);
+            return dir;
+        }
+
+        async function prepareLhqFile(): Promise<{ lhqFileName: string; outDir: string }> {
+            const dir = await createTempDir();
+            const lhqFileName = path.join(dir, 'Strings.lhq');
+            await fse.copy(path.join(folders().templates, 'TypescriptJson01', 'Strings.lhq'), lhqFileName);
+            return { lhqFileName, outDir: path.join(dir, 'out') };
+        }
+
+        describe('generate --check', () => {
+            it('succeeds when generated files are up to date', async () => {
+                const { lhqFileName, outDir } = await prepareLhqFile();
+                expect(runCli(lhqFileName, '--out', outDir).exitCode).to.equal(0);
+
+                const result = runCli(lhqFileName, '--out', outDir, '--check');
+
+                expect(result.exitCode, result.output).to.equal(0);
+                expect(result.output).to.contain('All 4 generated files are up to date.');
+            });
+
+            it('fails with diff when generated file was modified', async () => {
+                const { lhqFileName, outDir } = await prepareLhqFile();
+                expect(runCli(lhqFileName, '--out', outDir).exitCode).to.equal(0);
+
+                const fileName = path.join(outDir, 'Typescript', 'Strings.d.ts');
+                const content = await fse.readFile(fileName, { encoding: 'utf-8' });
+                await fse.writeFile(fileName, content.replace('export', '// modified\nexport'), { encoding: 'utf-8' });
+
+                const result = runCli(lhqFileName, '--out', outDir, '--check');
+
+                expect(result.exitCode, result.output).to.equal(1);
+                expect(result.output).to.contain('Outdated file Typescript/Strings.d.ts');
+                expect(result.output).to.match(/^-\s*\/\/ modified$/m);
+                expect(result.output).to.contain('1 of 4 generated files are not up to date');
+                // check mode does not write anything
+                expect(await fse.readFile(fileName, { encoding: 'utf-8' })).to.contain('// modified');
+            });
+
+            it('fails when generated file is missing', async () => {
+                const { lhqFileName, outDir } = await prepareLhqFile();
+
+                const result = runCli(lhqFileName, '--out', outDir, '--check');
+
+                expect(result.exitCode, result.output).to.equal(1);
+                expect(result.output).to.contain('Missing file Typescript/Strings.d.ts');
+                expect(await fse.pathExists(outDir)).to.be.false;
+            });
+        });
+
+        describe('generate --prune', () => {
+            it('reports stale files without deleting them', async () => {
+                const { lhqFileName, outDir } = await prepareLhqFile();
+                expect(runCli(lhqFileName, '--out', outDir).exitCode).to.equal(0);
+
+                const result = runCli(lhqFileName, '--out', `${outDir}2`);
+
+                expect(result.exitCode, result.output).to.equal(0);
+                expect(result.output).to.contain('is not generated anymore (use --prune to delete it)');
+                expect(await fse.pathExists(path.join(outDir, 'Typescript', 'Strings.d.ts'))).to.be.true;
+            });
+
+            it('deletes stale files but keeps modified ones', async () => {
+                const { lhqFileName, outDir } = await prepareLhqFile();
+                expect(runCli(lhqFileName, '--out', outDir).exitCode).to.equal(0);
+
+                const modifiedFileName = path.join(outDir, 'Typescript', 'Strings.d.ts');
+                await fse.appendFile(modifiedFileName, '// modified', { encoding: 'utf-8' });
+
+                // files generated into previous output directory are stale now
+                const result = runCli(lhqFileName, '--out', `${outDir}2`, '--prune');
+
+                expect(result.exitCode, result.output).to.equal(0);
+                expect(result.output).to.contain('Stale file out/Typescript/Strings.d.ts was modified after generation, skipped from deletion.');
+                expect(await fse.pathExists(modifiedFileName)).to.be.true;
+                expect(await fse.pathExists(path.join(outDir, 'Resources', 'Strings.json'))).to.be.false;
+                expect(await fse.pathExists(path.join(`${outDir}2`, 'Resources', 'Strings.json'))).to.be.true;
+
+                // modified stale file is kept in manifest
+                const manifest = JSON.parse(await fse.readFile(`${lhqFileName}.gen.json`, { encoding: 'utf-8' })) as { files: { path: string }[] };
+                expect(manifest.files.map(x => x.path).filter(x => !x.startsWith('out2/'))).to.deep.equal(['out/Typescript/Strings.d.ts']);
+            });
+
+            it('removes project items only of deleted stale files', async () => {
+                const dir = await createTempDir();
+                const templateDir = path.join(folders().templates, 'NetFwResxCsharp01');
+                const lhqFileName = path.join(dir, 'Strings.lhq');
+                const csProjectFileName = path.join(dir, 'NetFwResxCsharp01.csproj');
+                await fse.copy(path.join(templateDir, 'Strings.lhq'), lhqFileName);
+                await fse.copy(path.join(templateDir, 'NetFwResxCsharp01.csproj'), csProjectFileName);
+                expect(runCli(lhqFileName, '--out', dir, '--update-project').exitCode).to.equal(0);
+
+                await fse.appendFile(path.join(dir, 'Resources', 'Strings.gen.cs'), '// modified', { encoding: 'utf-8' });
+
+                const result = runCli(lhqFileName, '--out', path.join(dir, 'out2'), '--prune', '--update-project');
+
+                expect(result.exitCode, result.output).to.equal(0);
+                const content = await fse.readFile(csProjectFileName, { encoding: 'utf-8' });
+                expect(content).to.contain('<Compile Include="Resources\\Strings.gen.cs" />');
+                expect(content).to.not.contain('<EmbeddedResource Include="Resources\\Strings.en.resx" />');
+                expect(content).to.contain('<EmbeddedResource Include="out2\\Resources\\Strings.en.resx" />');
+            });
+        });
+
+        describe('generate --fixns', () => {
+            it('fixes namespace in VisualBasic settings from VB.NET project', async () => {
+                const dir = await createTempDir();
+                const templateDir = path.join(folders().templates, 'NetResxVisualBasic01');
+                const lhqFileName = path.join(dir, 'Localization', 'Strings.lhq');
+                await fse.copy(path.join(templateDir, 'NetResxVisualBasic01.vbproj'), path.join(dir, 'NetResxVisualBasic01.vbproj'));
+                const content = await fse.readFile(path.join(templateDir, 'Strings.lhq'), { encoding: 'utf-8' });
+                await fse.outputFile(lhqFileName, content.replace('"Namespace": "VbConsoleApp"', '"Namespace": ""'), { encoding: 'utf-8' });
+
+                const result = runCli(lhqFileName, '--out', path.join(dir, 'out'), '--fixns');
+
+                expect(result.exitCode, result.output).to.equal(0);
+                expect(result.output).to.contain(`Namespace 'VbConsoleApp' was updated in 'VisualBasic' settings`);
+                // VB.NET projects do not append sub folders to root namespace
+                expect(await fse.readFile(lhqFileName, { encoding: 'utf-8' })).to.contain('"Namespace": "VbConsoleApp"');
+            });
+        });
+
+        describe('upgrade', () => {
+            async function prepareOldLhqFile(): Promise<{ lhqFileName: string; content: string }> {
+                const dir = await createTempDir();
+                const lhqFileName = path.join(dir, 'Strings.lhq');
+                await fse.copy(path.join(folders().data, 'versions', 'v1.lhq'), lhqFileName);
+                return { lhqFileName, content: await fse.readFile(lhqFileName, { encoding: 'utf-8' }) };
+            }
+
+            it('dry run prints changes without writing any file', async () => {
+                const { lhqFileName, content } = await prepareOldLhqFile();
+
+                const result = runCli(lhqFileName, 'upgrade', '--dry-run', '--backup');
+
+                expect(result.exitCode, result.output).to.equal(0);
+                expect(result.output).to.contain('Changes to be made by upgrade of LHQ model file');
+                expect(result.output).to.contain('Model version upgraded from 1 to 2.');
+                expect(result.output).to.contain('Dry run, file was not changed.');
+                expect(await fse.readFile(lhqFileName, { encoding: 'utf-8' })).to.equal(content);
+                expect(await fse.pathExists(`${lhqFileName}.bak`)).to.be.false;
+            });
+
+            it('upgrades model file and saves backup', async () => {
+                const { lhqFileName, content } = await prepareOldLhqFile();
+
+                const result = runCli(lhqFileName, 'upgrade', '--backup');
+
+                expect(result.exitCode, result.output).to.equal(0);
+                expect(result.output).to.contain('was upgraded to version 3');
+                expect(await fse.readFile(`${lhqFileName}.bak`, { encoding: 'utf-8' })).to.equal(content);
+                const model = JSON.parse(await safeReadFile(lhqFileName)) as LhqModel;
+                expect(model.model.version).to.equal(3);
+            });
+        });
+    });
+
+    run();
+}, 500);
\ No newline at end of file
@@ -9,3 +9,7 @@ export async function safeReadFile(fileName: string): Promise<string> {
 export async function readFileInfo(inputPath: string, options?: ReadFileInfoOptions): Promise<FileInfo> {
     return fileUtils.readFileInfo(inputPath, path, fse.pathExists, fse.readFile, options);
 }
+
+export async function findDirectoryBuildPropsFiles(directory: string): Promise<FileInfo[]> {
+    return fileUtils.findDirectoryBuildPropsFiles(directory, path, fse.pathExists, fse.readFile);
+}
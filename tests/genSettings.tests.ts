@@ -1,12 +1,15 @@
+import path from 'node:path';
 import { expect } from 'chai';
-import { CodeGeneratorGroupSettings, ModelUtils, isNullOrEmpty } from '../src';
-import { initGenerator } from './testUtils';
+import { CodeGeneratorGroupSettings, GeneratorTemplates, HbsTemplateManager, LhqModel, ModelUtils, generatorUtils, isNullOrEmpty } from '../src';
+import { Generator } from '../src/generator';
+import { CodeGeneratorSettingsConvertor } from '../src/settingsConvertor';
+import { folders, initGenerator, loadGeneratorInitialization, safeReadFile } from './testUtils';
 
 setTimeout(async () => {
     await initGenerator();
 
     describe('Code generator settings validator tests', () => {
-        const convertor = ModelUtils.getCodeGeneratorSettingsConvertor();
+        const convertor = new CodeGeneratorSettingsConvertor();
 
         it('CSharp / Namespace -> Missing value', () => {
             const settings: CodeGeneratorGroupSettings = { ['CSharp']: { "Namespace": "" } };
@@ -33,6 +36,203 @@ setTimeout(async () => {
                 expect(result.property).to.equal('Namespace');
             });
         });
+
+        it('validateAllSettings returns all errors across groups', () => {
+            const settings: CodeGeneratorGroupSettings = {
+                ['CSharp']: { "Namespace": "", "GenerateParamsMethods": true, "ParamsMethodsSuffix": "1-x" },
+                ['ResX']: {}
+            };
+
+            const results = convertor.validateAllSettings('WinFormsResxCsharp01', settings);
+            expect(results.map(x => `${x.group}/${x.property}/${x.errorCode}`)).to.deep.equal([
+                'CSharp/Namespace/csharp.namespace.missing',
+                'CSharp/ParamsMethodsSuffix/csharp.paramsmethodssuffix.invalid'
+            ]);
+            expect(results.every(x => !isNullOrEmpty(x.error))).to.be.true;
+        });
+
+        it('validateAllSettings validates missing groups with default values', () => {
+            const results = convertor.validateAllSettings('NetCoreResxCsharp01', {});
+            expect(results.map(x => x.errorCode)).to.deep.equal(['csharp.namespace.missing']);
+
+            const valid = convertor.validateAllSettings('NetCoreResxCsharp01', { ['CSharp']: { "Namespace": "MyApp.Resources" } });
+            expect(valid).to.be.empty;
+        });
+
+        it('validateAllSettings returns every failing validator of property', () => {
+            const settings: CodeGeneratorGroupSettings = { ['Typescript']: { "AmbientNamespaceName": "1ns", "InterfacePrefix": "-I" } };
+            const results = convertor.validateAllSettings('TypescriptJson01', settings);
+            expect(results.map(x => x.errorCode)).to.deep.equal(['typescript.ambientnamespace.invalid', 'typescript.interfaceprefix.invalid']);
+        });
+
+        it('CSharp / Namespace -> Required only when generation is enabled', () => {
+            const settings: CodeGeneratorGroupSettings = { ['CSharp']: { "Enabled": false, "Namespace": "" } };
+            expect(convertor.validateAllSettings('NetCoreResxCsharp01', settings)).to.be.empty;
+            expect(convertor.getPropertyState('NetCoreResxCsharp01', settings, 'CSharp', 'Namespace')).to.deep.equal({ visible: true, required: false });
+
+            settings['CSharp']['Enabled'] = true;
+            expect(convertor.validateSettings('NetCoreResxCsharp01', settings).errorCode).to.equal('csharp.namespace.missing');
+            expect(convertor.getPropertyState('NetCoreResxCsharp01', settings, 'CSharp', 'Namespace')).to.deep.equal({ visible: true, required: true });
+        });
+
+        it('CSharp / ParamsMethodsSuffix -> Validated only when visible', () => {
+            const settings: CodeGeneratorGroupSettings = { ['CSharp']: { "Namespace": "MyApp", "ParamsMethodsSuffix": "1-x" } };
+            expect(convertor.validateAllSettings('WinFormsResxCsharp01', settings)).to.be.empty;
+            expect(convertor.getPropertyState('WinFormsResxCsharp01', settings, 'CSharp', 'ParamsMethodsSuffix')!.visible).to.be.false;
+
+            settings['CSharp']['GenerateParamsMethods'] = true;
+            expect(convertor.validateSettings('WinFormsResxCsharp01', settings).errorCode).to.equal('csharp.paramsmethodssuffix.invalid');
+            expect(convertor.getPropertyState('WinFormsResxCsharp01', settings, 'CSharp', 'ParamsMethodsSuffix')!.visible).to.be.true;
+        });
+
+        it('Json / MetadataFileNameSuffix -> Must differ from model name', () => {
+            const settings: CodeGeneratorGroupSettings = { ['Json']: { "MetadataFileNameSuffix": "Strings" } };
+            expect(convertor.validateAllSettings('TypescriptJson01', settings)).to.be.empty;
+
+            const results = convertor.validateAllSettings('TypescriptJson01', settings, { modelName: 'strings' });
+            expect(results.map(x => x.errorCode)).to.deep.equal(['json.metadatafilesuffix.samename']);
+
+            const result = convertor.validateSettings('TypescriptJson01', settings, { modelName: 'Other' });
+            expect(isNullOrEmpty(result.error)).to.be.true;
+        });
+
+        it('getPropertyState returns undefined for unknown property', () => {
+            expect(convertor.getPropertyState('NetCoreResxCsharp01', {}, 'CSharp', 'Unknown')).to.be.undefined;
+        });
+    });
+
+    describe('Code generator settings schema tests', () => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const getSchema = (templateId: string, stringValues?: boolean): any =>
+            JSON.parse(generatorUtils.generateTemplateSettingsSchema(HbsTemplateManager.getTemplateDefinition(templateId)!, { stringValues }));
+
+        it('schema describes all groups and properties of template', () => {
+            const schema = getSchema('WinFormsResxCsharp01');
+            const definition = HbsTemplateManager.getTemplateDefinition('WinFormsResxCsharp01')!;
+
+            expect(schema.title).to.equal(definition.displayName);
+            expect(Object.keys(schema.properties)).to.deep.equal(['CSharp', 'ResX']);
+            expect(Object.keys(schema.properties.CSharp.properties)).to.deep.equal(definition.settings['CSharp'].properties.map(x => x.name));
+            expect(schema.properties.CSharp.title).to.equal('C# Code Generation');
+
+            const csharp = schema.properties.CSharp.properties;
+            expect(csharp.Enabled).to.deep.include({ type: 'boolean', default: true, title: 'Enable C# Code Generation' });
+            expect(csharp.LineEndings).to.deep.include({ type: 'string', enum: ['LF', 'CRLF'], default: 'LF' });
+            expect(csharp.ParamsMethodsSuffix.allOf).to.deep.equal([{
+                pattern: '^(?![\\d])[A-Za-z0-9_]*$',
+                description: 'Value cannot start with a digit, can only contain letters, digits, and underscores.'
+            }]);
+        });
+
+        it('schema with string values describes values as strings', () => {
+            const csharp = getSchema('NetCoreResxCsharp01', true).properties.CSharp.properties;
+
+            expect(csharp.Enabled).to.deep.include({ type: 'string', enum: ['true', 'false'], default: 'true' });
+            expect(csharp.OutputFolder).to.deep.include({ type: 'string', minLength: 1, default: 'Resources' });
+        });
+
+        it('schema with metadata node describes content node of metadatas in LHQ file', async () => {
+            const schema = JSON.parse(generatorUtils.generateTemplateSettingsSchema(HbsTemplateManager.getTemplateDefinition('NetFwResxCsharp01')!,
+                { metadataNode: true }));
+
+            expect(schema.required).to.deep.equal(['name', 'attrs']);
+            expect(schema.properties.name).to.deep.equal({ const: 'content' });
+            expect(schema.properties.attrs.properties.templateId).to.deep.equal({ const: 'NetFwResxCsharp01' });
+
+            const settingsNode = schema.properties.childs.items;
+            expect(settingsNode.properties.name).to.deep.equal({ const: 'Settings' });
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const groupNodes = settingsNode.properties.childs.items.oneOf as any[];
+            expect(groupNodes.map(x => x.properties.name.const)).to.deep.equal(['CSharp', 'ResX']);
+
+            // every settings node of template in real LHQ file is described by schema
+            const model = JSON.parse(await safeReadFile(path.join(folders().templates, 'NetFwResxCsharp01', 'Strings.lhq'))) as LhqModel;
+            const contentNode = model.metadatas!.childs![0].childs!.find(x => x.name === 'content')!;
+            expect(contentNode.attrs!['templateId']).to.equal(schema.properties.attrs.properties.templateId.const);
+
+            const settingsNodes = contentNode.childs!.find(x => x.name === 'Settings')!.childs!;
+            expect(settingsNodes).to.not.be.empty;
+            settingsNodes.forEach(node => {
+                const attrsSchema = groupNodes.find(x => x.properties.name.const === node.name).properties.attrs;
+                expect(attrsSchema.additionalProperties).to.be.false;
+                Object.entries(node.attrs ?? {}).forEach(([name, value]) => {
+                    const propertySchema = attrsSchema.properties[name];
+                    expect(propertySchema, `${node.name}/${name}`).to.not.be.undefined;
+                    expect(propertySchema.anyOf[0].type).to.equal('string');
+                    expect(propertySchema.anyOf[1]).to.deep.equal({ type: 'null' });
+                    expect(typeof value).to.equal('string');
+                    if (propertySchema.anyOf[0].enum) {
+                        expect(propertySchema.anyOf[0].enum).to.include(value);
+                    }
+                });
+            });
+        });
+    });
+
+    describe('Code generator settings constraints tests', () => {
+        const customTemplates: GeneratorTemplates = {
+            hbsTemplates: { 'MyTemplate': '' },
+            templatesMetadata: {
+                settings: {
+                    'Format': {
+                        displayName: 'Format', description: 'Format settings',
+                        properties: [
+                            {
+                                name: 'IndentWidth', displayName: 'Indent width', description: 'Indent width', type: 'number', default: 4, required: true,
+                                validators: [{ min: 1, max: 8, error: 'Value must be between 1 and 8.', errorCode: 'format.indentwidth.range' }]
+                            },
+                            {
+                                name: 'CommentPrefix', displayName: 'Comment prefix', description: 'Comment prefix', type: 'string', default: '//', required: true,
+                                validators: [
+                                    { minLength: 1, maxLength: 3, error: 'Value must have 1 to 3 characters.', errorCode: 'format.commentprefix.length' },
+                                    { allowedValues: ['//', '#', '--'], error: 'Value is not allowed.', errorCode: 'format.commentprefix.notallowed' }
+                                ]
+                            }
+                        ]
+                    }
+                },
+                templates: {
+                    'MyTemplate': { displayName: 'My template', description: 'Custom template', settings: ['Format'] }
+                }
+            }
+        };
+
+        const createConvertor = async () => {
+            const init = await loadGeneratorInitialization();
+            init.customTemplates = [customTemplates];
+            return new Generator(init).settingsConvertor;
+        };
+
+        it('min / max constraints', async () => {
+            const convertor = await createConvertor();
+
+            expect(convertor.validateSetting('MyTemplate', 'Format', 'IndentWidth', 4)).to.be.undefined;
+            expect(convertor.validateSetting('MyTemplate', 'Format', 'IndentWidth', '8')).to.be.undefined;
+            expect(convertor.validateSetting('MyTemplate', 'Format', 'IndentWidth', 0)?.errorCode).to.equal('format.indentwidth.range');
+            expect(convertor.validateSetting('MyTemplate', 'Format', 'IndentWidth', 9)?.errorCode).to.equal('format.indentwidth.range');
+            expect(convertor.validateSetting('MyTemplate', 'Format', 'IndentWidth', 'abc')?.errorCode).to.equal('format.indentwidth.range');
+        });
+
+        it('length and allowed values constraints', async () => {
+            const convertor = await createConvertor();
+
+            expect(convertor.validateSettings('MyTemplate', { ['Format']: { "CommentPrefix": "#" } }).error).to.be.undefined;
+
+            const results = convertor.validateAllSettings('MyTemplate', { ['Format']: { "CommentPrefix": "////", "IndentWidth": 2 } });
+            expect(results.map(x => x.errorCode)).to.deep.equal(['format.commentprefix.length', 'format.commentprefix.notallowed']);
+            expect(results[0].error).to.equal('Value must have 1 to 3 characters.');
+
+            expect(convertor.validateSetting('MyTemplate', 'Format', 'CommentPrefix', ';')?.errorCode).to.equal('format.commentprefix.notallowed');
+        });
+
+        it('validator without constraint is rejected', async () => {
+            const init = await loadGeneratorInitialization();
+            const templates = structuredClone(customTemplates);
+            templates.templatesMetadata.settings!['Format'].properties[0].validators = [{ error: 'Invalid.', errorCode: 'format.invalid' }];
+            init.customTemplates = [templates];
+
+            expect(() => new Generator(init)).to.throw(/at least one constraint/);
+        });
     });
 
     run();
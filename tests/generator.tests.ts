@@ -3,9 +3,10 @@ import { glob } from 'glob';
 import fse from 'fs-extra';
 
 import { getGeneratedFileContent } from '../src/generatorUtils.js';
-import { GeneratedFile, GenerateResult, LhqModel } from '../src/index.js';
+import { AppError, AppErrorCodes, AppErrorKinds, GeneratedFile, GenerateProgress, GenerateResult, GeneratorTemplates, isNullOrEmpty, LhqModel, ModelUtils } from '../src/index.js';
 import { Generator } from '../src/generator.js';
-import { initGenerator, splitPath, verifyFile } from './testUtils.js';
+import { expect } from 'chai';
+import { initGenerator, loadGeneratorInitialization, safeReadFile, splitPath, verifyFile } from './testUtils.js';
 import * as fileUtils from './fileUtils.js';
 
 import { folders } from './testUtils.js';
@@ -27,6 +28,443 @@ setTimeout(async () => {
 
     });
 
+    describe('Generator instances', () => {
+        const lhqFileName = path.join(folders().templates, 'NetFwResxCsharp01', 'Strings.lhq');
+        const data = { namespace: 'Test' };
+
+        it('generators with own initialization are isolated', async function () {
+            const model = await safeReadFile(lhqFileName);
+
+            const initA = await loadGeneratorInitialization();
+            const initB = await loadGeneratorInitialization();
+            initB.hbsTemplates['NetFwResxCsharp01'] = '{{~#output fileName=(x-concat model.name ".gen.cs") ~}}CSharp{{~/output~}}// {{ model.name }} from B';
+
+            const generatorA = new Generator(initA);
+            const generatorB = new Generator(initB);
+
+            const resultB = generatorB.generate(lhqFileName, model, data);
+            const resultA = generatorA.generate(lhqFileName, model, data);
+            const resultDefault = new Generator().generate(lhqFileName, model, data);
+
+            const mainA = resultA.generatedFiles[0];
+            const mainB = resultB.generatedFiles[0];
+            expect(mainB.content).to.equal('// Strings from B');
+            expect(mainA.content).to.not.equal(mainB.content);
+            expect(mainA.content).to.equal(resultDefault.generatedFiles[0].content);
+            expect(generatorA.templateManager).to.not.equal(generatorB.templateManager);
+        });
+
+        it('generated files are not accumulated between generate calls', async function () {
+            const model = await safeReadFile(lhqFileName);
+            const generator = new Generator(await loadGeneratorInitialization());
+
+            const result1 = generator.generate(lhqFileName, model, data);
+            const result2 = generator.generate(lhqFileName, model, data);
+
+            expect(result2.generatedFiles).to.have.length(result1.generatedFiles.length);
+            expect(result2.generatedFiles.map(f => f.fileName)).to.deep.equal(result1.generatedFiles.map(f => f.fileName));
+        });
+    });
+
+    describe('Multiple code generators', () => {
+        const lhqFileName = path.join(folders().templates, 'NetCoreResxCsharp01', 'Strings.lhq');
+
+        it('generate files for all code generators declared in model', async function () {
+            const rootModel = ModelUtils.createRootElement(await safeReadFile(lhqFileName));
+            const typescriptGenerator = ModelUtils.createCodeGeneratorElement('TypescriptJson01');
+            rootModel.codeGenerators = [rootModel.codeGenerator!, typescriptGenerator];
+
+            const model = ModelUtils.rootElementToModel(rootModel);
+            const reloaded = ModelUtils.createRootElement(model);
+            expect(reloaded.codeGenerators.map(x => x.templateId)).to.deep.equal(['NetCoreResxCsharp01', 'TypescriptJson01']);
+
+            const result = new Generator().generate(lhqFileName, model, { namespace: 'Test' });
+            const templateIds = [...new Set(result.generatedFiles.map(f => f.templateId))];
+            expect(templateIds).to.deep.equal(['NetCoreResxCsharp01', 'TypescriptJson01']);
+
+            const fileNames = result.generatedFiles.map(f => splitPath(f.fileName).join('/'));
+            expect(fileNames).to.include('Resources/Strings.gen.cs');
+            expect(fileNames).to.include('Resources/Strings.d.ts');
+        });
+
+        it('replacing code generators removes unused ones from model', async function () {
+            const rootModel = ModelUtils.createRootElement(await safeReadFile(lhqFileName));
+            rootModel.codeGenerators = [rootModel.codeGenerator!, ModelUtils.createCodeGeneratorElement('TypescriptJson01')];
+            rootModel.codeGenerators = [ModelUtils.createCodeGeneratorElement('TypescriptJson01')];
+
+            const reloaded = ModelUtils.createRootElement(ModelUtils.rootElementToModel(rootModel));
+            expect(reloaded.codeGenerators.map(x => x.templateId)).to.deep.equal(['TypescriptJson01']);
+        });
+
+        it('replacing code generators keeps content nodes which are not code generators', async function () {
+            const model = JSON.parse(await safeReadFile(lhqFileName)) as LhqModel;
+            // content node without template id is not code generator
+            model.metadatas!.childs![0].childs!.unshift({ name: 'content', attrs: { custom: 'value' } });
+
+            const rootModel = ModelUtils.createRootElement(model);
+            expect(rootModel.codeGenerators.map(x => x.templateId)).to.deep.equal(['NetCoreResxCsharp01']);
+            rootModel.codeGenerators = [ModelUtils.createCodeGeneratorElement('TypescriptJson01')];
+
+            const contentNodes = ModelUtils.rootElementToModel(rootModel).metadatas!.childs![0].childs!.filter(x => x.name === 'content');
+            expect(contentNodes.map(x => x.attrs)).to.deep.equal([{ custom: 'value' }, { templateId: 'TypescriptJson01', version: '1' }]);
+        });
+    });
+
+    describe('Custom templates', () => {
+        const lhqFileName = path.join(folders().templates, 'NetFwResxCsharp01', 'Strings.lhq');
+        const customTemplates: GeneratorTemplates = {
+            hbsTemplates: {
+                'MyCsharpTemplate': '{{~#output fileName=(x-concat model.name ".keys.cs") ~}}CSharp{{~/output~}}namespace {{ @root.settings.Namespace }}'
+            },
+            templatesMetadata: {
+                settings: {},
+                templates: {
+                    'MyCsharpTemplate': { displayName: 'My C# template', description: 'Custom template', settings: ['CSharp'] }
+                }
+            }
+        };
+
+        it('custom template reuses built-in settings group', async function () {
+            const init = await loadGeneratorInitialization();
+            init.customTemplates = [customTemplates];
+            const generator = new Generator(init);
+
+            expect(generator.templateManager.hasTemplate('NetFwResxCsharp01')).to.be.true;
+            expect(Object.keys(generator.templateManager.getTemplateDefinition('MyCsharpTemplate')!.settings)).to.deep.equal(['CSharp']);
+
+            const model = await safeReadFile(lhqFileName);
+            const result = generator.generate(lhqFileName, model.replace('"NetFwResxCsharp01"', '"MyCsharpTemplate"'), {});
+
+            expect(result.generatedFiles).to.have.length(1);
+            expect(splitPath(result.generatedFiles[0].fileName)).to.deep.equal(['Resources', 'Strings.keys.cs']);
+            expect(result.generatedFiles[0].content).to.equal('namespace ConsoleApp2');
+            expect(result.generatedFiles[0].templateId).to.equal('MyCsharpTemplate');
+        });
+
+        it('custom template cannot redefine built-in template', async function () {
+            const init = await loadGeneratorInitialization();
+            init.customTemplates = [{
+                hbsTemplates: { 'NetFwResxCsharp01': '' },
+                templatesMetadata: { settings: {}, templates: {} }
+            }];
+
+            expect(() => new Generator(init)).to.throw(AppError, /Template 'NetFwResxCsharp01' is already defined/);
+        });
+
+        it('built-in settings group inherits properties of base group', async function () {
+            const generator = new Generator(await loadGeneratorInitialization());
+            const csharp = generator.templateManager.getTemplateDefinition('NetCoreResxCsharp01')!.settings['CSharp'];
+            const winForms = generator.templateManager.getTemplateDefinition('WinFormsResxCsharp01')!.settings['CSharp'];
+
+            expect(winForms.properties.map(x => x.name)).to.deep.equal([
+                ...csharp.properties.map(x => x.name), 'GenerateParamsMethods', 'ParamsMethodsSuffix']);
+            expect(winForms).to.not.have.property('extends');
+        });
+
+        it('custom settings group extends built-in group with overrides', async function () {
+            const init = await loadGeneratorInitialization();
+            init.customTemplates = [{
+                hbsTemplates: { 'MyCsharpTemplate': '' },
+                templatesMetadata: {
+                    settings: {
+                        'MyCSharp': {
+                            displayName: 'My C#', description: 'My C# settings', extends: 'CSharp',
+                            properties: [
+                                { name: 'OutputFolder', displayName: 'Output Folder', description: 'Output folder', type: 'string', default: 'Generated', required: true },
+                                { name: 'ClassName', displayName: 'Class name', description: 'Class name', type: 'string', default: 'Keys', required: true }
+                            ]
+                        }
+                    },
+                    templates: {
+                        'MyCsharpTemplate': { displayName: 'My C# template', description: 'Custom template', settings: ['MyCSharp:CSharp'] }
+                    }
+                }
+            }];
+
+            const generator = new Generator(init);
+            const baseNames = generator.templateManager.getTemplateDefinition('NetCoreResxCsharp01')!.settings['CSharp'].properties.map(x => x.name);
+            const properties = generator.templateManager.getTemplateDefinition('MyCsharpTemplate')!.settings['CSharp'].properties;
+
+            expect(properties.map(x => x.name)).to.deep.equal([...baseNames, 'ClassName']);
+            expect(properties.find(x => x.name === 'OutputFolder')!.default).to.equal('Generated');
+        });
+
+        it('settings group inheritance is validated', async function () {
+            const createGroup = (base: string) => ({ displayName: base, description: base, extends: base, properties: [] });
+
+            const init = await loadGeneratorInitialization();
+            init.customTemplates = [{
+                hbsTemplates: {},
+                templatesMetadata: { settings: { 'GroupA': createGroup('GroupB'), 'GroupB': createGroup('GroupA') }, templates: {} }
+            }];
+            expect(() => new Generator(init)).to.throw(AppError, /circular inheritance \(GroupA -> GroupB -> GroupA\)/);
+
+            init.customTemplates = [{
+                hbsTemplates: {},
+                templatesMetadata: { settings: { 'GroupA': createGroup('Unknown') }, templates: {} }
+            }];
+            expect(() => new Generator(init)).to.throw(AppError, /extends unknown settings group 'Unknown'/);
+        });
+
+        it('custom template uses custom helpers', async function () {
+            const init = await loadGeneratorInitialization();
+            init.customTemplates = [{
+                hbsTemplates: {
+                    'MyCsharpTemplate': '{{~#output fileName=(x-concat model.name ".markets.txt") ~}}CSharp{{~/output~}}' +
+                        '{{#each model.languages}}{{acme-marketId this prefix="M"}};{{/each}}{{acme-modelName}}'
+                },
+                templatesMetadata: customTemplates.templatesMetadata
+            }];
+            init.customHelpers = {
+                prefix: 'acme',
+                helpers: {
+                    'marketId': (context, culture) => `${String(context.hash['prefix'])}-${String(culture).toUpperCase()}`,
+                    'modelName': context => `${context.root.model.name}:${context.hostEnvironment.pathCombine('a', 'b')}`
+                }
+            };
+
+            const generator = new Generator(init);
+            const model = await safeReadFile(lhqFileName);
+            const result = generator.generate(lhqFileName, model.replace('"NetFwResxCsharp01"', '"MyCsharpTemplate"'), {});
+
+            expect(result.generatedFiles).to.have.length(1);
+            expect(result.generatedFiles[0].content).to.equal(`M-EN;M-SK;Strings:${path.join('a', 'b')}`);
+        });
+
+        it('custom block helper renders content with current context', async function () {
+            const init = await loadGeneratorInitialization();
+            init.customTemplates = [{
+                hbsTemplates: {
+                    'MyCsharpTemplate': '{{~#output fileName=(x-concat model.name ".blocks.txt") ~}}CSharp{{~/output~}}' +
+                        '{{#each model.languages}}{{#acme-upper}}[{{this}}]{{/acme-upper}}{{/each}}'
+                },
+                templatesMetadata: customTemplates.templatesMetadata
+            }];
+            init.customHelpers = {
+                prefix: 'acme',
+                helpers: {
+                    'upper': context => context.options.fn(context.context).toUpperCase()
+                }
+            };
+
+            const generator = new Generator(init);
+            const model = await safeReadFile(lhqFileName);
+            const result = generator.generate(lhqFileName, model.replace('"NetFwResxCsharp01"', '"MyCsharpTemplate"'), {});
+
+            expect(result.generatedFiles[0].content).to.equal('[EN][SK]');
+        });
+
+        it('custom template uses case and identifier helpers', async function () {
+            const init = await loadGeneratorInitialization();
+            init.customTemplates = [{
+                hbsTemplates: {
+                    'MyCsharpTemplate': '{{~#output fileName=(x-concat model.name ".keys.txt") ~}}CSharp{{~/output~}}' +
+                        '{{#each model.categories}}{{x-case name case="snake"}}|{{x-identifier (x-concat "1" name) case="camel"}};{{/each}}'
+                },
+                templatesMetadata: customTemplates.templatesMetadata
+            }];
+
+            const generator = new Generator(init);
+            const model = await safeReadFile(lhqFileName);
+            const result = generator.generate(lhqFileName, model.replace('"NetFwResxCsharp01"', '"MyCsharpTemplate"'), {});
+
+            expect(result.generatedFiles[0].content).to.equal('cars|_1Cars;messages|_1Messages;');
+
+            init.customTemplates[0].hbsTemplates['MyCsharpTemplate'] = '{{x-case model.name case="upper"}}';
+            expect(() => new Generator(init).generate(lhqFileName, model.replace('"NetFwResxCsharp01"', '"MyCsharpTemplate"'), {}))
+                .to.throw(AppError, /Helper 'x-case' has invalid hash param 'case' \(upper\)/);
+        });
+
+        it('custom helpers cannot clash with built-in helpers', async function () {
+            const init = await loadGeneratorInitialization();
+            const helper = () => '';
+
+            init.customHelpers = { prefix: 'x', helpers: { 'myJoin': helper } };
+            expect(() => new Generator(init)).to.throw(AppError, /prefix 'x' clashes with built-in helpers/);
+
+            init.customHelpers = { prefix: 'acme-x', helpers: { 'myJoin': helper } };
+            expect(() => new Generator(init)).to.throw(AppError, /prefix 'acme-x' is not valid/);
+
+            init.customHelpers = { prefix: 'acme', helpers: { 'my join': helper } };
+            expect(() => new Generator(init)).to.throw(AppError, /Custom helper 'acme-my join' has invalid name/);
+        });
+    });
+
+    describe('Generating from root model element', () => {
+        const lhqFileName = path.join(folders().templates, 'NetFwResxCsharp01', 'Strings.lhq');
+        const data = { namespace: 'Test' };
+
+        it('generate from root model element produces same files as from model data', async function () {
+            const model = await safeReadFile(lhqFileName);
+            const rootModel = ModelUtils.createRootElement(model);
+            const generator = new Generator();
+
+            const fromElement = generator.generate(lhqFileName, rootModel, data);
+            const fromModel = generator.generate(lhqFileName, model, data);
+
+            expect(fromElement.generatedFiles).to.deep.equal(fromModel.generatedFiles);
+        });
+
+        // simulates element (and its child elements) created by other copy of library (not an instance of same class)
+        const toForeignElement = <T extends object>(element: T): T => {
+            const wrap = (value: unknown): unknown => {
+                if (Array.isArray(value)) {
+                    return value.map(wrap);
+                }
+
+                return typeof value === 'object' && value !== null && 'elementType' in value ? toForeignElement(value) : value;
+            };
+
+            return new Proxy(element, {
+                getPrototypeOf: () => Object.prototype,
+                get: (target, key) => {
+                    const value = Reflect.get(target, key);
+                    return typeof value === 'function' ? value.bind(target) : wrap(value);
+                }
+            });
+        };
+
+        it('root model element is recognized by its shape', async function () {
+            const model = await safeReadFile(lhqFileName);
+            const rootModel = ModelUtils.createRootElement(model);
+            const foreignModel = toForeignElement(rootModel);
+            const generator = new Generator();
+
+            const fromElement = generator.generate(lhqFileName, foreignModel, data);
+            const fromModel = generator.generate(lhqFileName, model, data);
+
+            expect(fromElement.generatedFiles).to.deep.equal(fromModel.generatedFiles);
+        });
+
+        it('code generators from options override model code generators', async function () {
+            const rootModel = ModelUtils.createRootElement(await safeReadFile(lhqFileName));
+            const codeGenerator = rootModel.codeGenerator!;
+            const settings = structuredClone(codeGenerator.settings);
+            settings['CSharp']['OutputFolder'] = 'Generated';
+            const edited = ModelUtils.createCodeGeneratorElement(codeGenerator.templateId, settings);
+
+            const result = new Generator().generate(lhqFileName, rootModel, data, { codeGenerators: [edited] });
+
+            const fileNames = result.generatedFiles.map(f => splitPath(f.fileName).join('/'));
+            expect(fileNames).to.include('Generated/Strings.gen.cs');
+            expect(rootModel.codeGenerator!.settings['CSharp']['OutputFolder']).to.not.equal('Generated');
+        });
+    });
+
+    describe('Output files validation', () => {
+        const lhqFileName = path.join(folders().templates, 'NetFwResxCsharp01', 'Strings.lhq');
+        const data = { namespace: 'Test' };
+
+        const generateWithOutputFolder = async (outputFolder: string): Promise<GenerateResult> => {
+            const rootModel = ModelUtils.createRootElement(await safeReadFile(lhqFileName));
+            const codeGenerator = rootModel.codeGenerator!;
+            const settings = structuredClone(codeGenerator.settings);
+            settings['CSharp']['OutputFolder'] = outputFolder;
+            const edited = ModelUtils.createCodeGeneratorElement(codeGenerator.templateId, settings);
+
+            return new Generator().generate(lhqFileName, rootModel, data, { codeGenerators: [edited] });
+        };
+
+        const expectOutputError = async (outputFolder: string, code: string): Promise<void> => {
+            let error: unknown;
+            try {
+                await generateWithOutputFolder(outputFolder);
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).to.be.instanceOf(AppError);
+            expect((error as AppError).kind).to.equal(AppErrorKinds.invalidOutputFile);
+            expect((error as AppError).code).to.equal(code);
+        };
+
+        it('output folder is normalized', async function () {
+            const result = await generateWithOutputFolder('./Gen/../Resources\\Sub/');
+            const fileNames = result.generatedFiles.map(f => splitPath(f.fileName).join('/'));
+            expect(fileNames).to.include('Resources/Sub/Strings.gen.cs');
+        });
+
+        it('output folder outside of output directory is rejected', async function () {
+            await expectOutputError('../../etc', AppErrorCodes.OutputFileOutsideFolder);
+            await expectOutputError('Resources/../../etc', AppErrorCodes.OutputFileOutsideFolder);
+        });
+
+        it('absolute output folder is rejected', async function () {
+            await expectOutputError('/etc', AppErrorCodes.OutputFileAbsolutePath);
+            await expectOutputError('C:\\Temp', AppErrorCodes.OutputFileAbsolutePath);
+        });
+
+        it('same output file generated twice is rejected', async function () {
+            const rootModel = ModelUtils.createRootElement(await safeReadFile(lhqFileName));
+            const codeGenerator = rootModel.codeGenerator!;
+            const settings = structuredClone(codeGenerator.settings);
+            settings['CSharp']['OutputFolder'] = 'resources';
+            const duplicate = ModelUtils.createCodeGeneratorElement(codeGenerator.templateId, settings);
+
+            expect(() => new Generator().generate(lhqFileName, rootModel, data, { codeGenerators: [codeGenerator, duplicate] }))
+                .to.throw(AppError, /already generated by template 'NetFwResxCsharp01'/);
+        });
+
+        it('output files differing only by letter case are allowed for case sensitive paths', async function () {
+            const rootModel = ModelUtils.createRootElement(await safeReadFile(lhqFileName));
+            const codeGenerator = rootModel.codeGenerator!;
+            const settings = structuredClone(codeGenerator.settings);
+            settings['CSharp']['OutputFolder'] = 'resources';
+            settings['ResX']['OutputFolder'] = 'resources';
+            const other = ModelUtils.createCodeGeneratorElement(codeGenerator.templateId, settings);
+
+            const result = new Generator().generate(lhqFileName, rootModel, data, { codeGenerators: [codeGenerator, other], caseSensitivePaths: true });
+
+            const fileNames = result.generatedFiles.map(f => splitPath(f.fileName).join('/'));
+            expect(fileNames).to.include('Resources/Strings.gen.cs');
+            expect(fileNames).to.include('resources/Strings.gen.cs');
+        });
+    });
+
+    describe('Async generation', () => {
+        const lhqFileName = path.join(folders().templates, 'NetFwResxCsharp01', 'Strings.lhq');
+        const data = { namespace: 'Test' };
+
+        it('generateAsync returns same files as generate and reports progress', async function () {
+            const model = await safeReadFile(lhqFileName);
+            const generator = new Generator();
+
+            const progress: GenerateProgress[] = [];
+            const result = await generator.generateAsync(lhqFileName, model, data, { onProgress: p => progress.push(p) });
+            const expected = generator.generate(lhqFileName, model, data);
+
+            expect(result.generatedFiles).to.deep.equal(expected.generatedFiles);
+            expect(progress.length).to.be.greaterThan(1);
+            expect(progress[0].templateId).to.equal('NetFwResxCsharp01');
+            expect(progress[0].hostLang).to.be.undefined;
+
+            const childRuns = progress.slice(1);
+            expect(childRuns.every(p => p.templateId === 'NetResx' && !isNullOrEmpty(p.hostLang))).to.be.true;
+            expect(childRuns.map(p => p.fileName)).to.include('Strings.en.resx');
+            expect(progress.map(p => p.index)).to.deep.equal(progress.map((_, i) => i + 1));
+            expect(progress.every(p => p.total === progress.length)).to.be.true;
+        });
+
+        it('generateAsync is rejected when aborted', async function () {
+            const model = await safeReadFile(lhqFileName);
+            const generator = new Generator();
+            const controller = new AbortController();
+
+            let error: unknown;
+            try {
+                await generator.generateAsync(lhqFileName, model, data, {
+                    signal: controller.signal,
+                    onProgress: () => controller.abort()
+                });
+            } catch (e) {
+                error = e;
+            }
+
+            expect(error).to.be.instanceOf(AppError);
+            expect((error as AppError).kind).to.equal(AppErrorKinds.generationAborted);
+        });
+    });
+
     run();
 }, 500);
 
@@ -34,7 +472,7 @@ setTimeout(async () => {
 async function generateFromLhq(folder: string): Promise<void> {
     const testDir = path.join(folders().templates, folder);
 
-    const csProjectFiles = await glob('*.csproj', { cwd: testDir, nodir: true });
+    const csProjectFiles = await glob('*.{csproj,vbproj,fsproj}', { cwd: testDir, nodir: true });
     if (csProjectFiles?.length === 0) {
         return;
     }
@@ -87,7 +525,7 @@ async function generateFromLhq(folder: string): Promise<void> {
     // await verifyFile(path.join(generatedFolder, 'result.txt'), testResult, 'text');
 }
 
-type GeneratedFileForTest = Omit<GeneratedFile, 'fileName'> & { fileName: string[] };
+type GeneratedFileForTest = Omit<GeneratedFile, 'fileName' | 'templateId'> & { fileName: string[] };
 type GenerateResultForTest = {
     generatedFiles: GeneratedFileForTest[];
 }
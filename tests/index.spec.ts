@@ -3,4 +3,6 @@ import './utils.test';
 import './namespaces.test'
 import './mapping.tests'
 import './generator.tests';
-import './genSettings.tests';
\ No newline at end of file
+import './genSettings.tests';
+import './validation.tests';
+import './cli.tests';
\ No newline at end of file
@@ -3,14 +3,16 @@ import { expect } from 'chai';
 import { glob } from 'glob';
 import fse from 'fs-extra';
 
-import { folders, initGenerator, safeReadFile, verify } from './testUtils';
-import { detectFormatting, updateEOL } from '../src/utils';
-import { LhqModel } from '../src/api/schemas';
+import { folders, initGenerator, loadGeneratorInitialization, safeReadFile, verify } from './testUtils';
+import { detectFormatting, tryRemoveBOM, updateEOL } from '../src/utils';
+import { LhqModel, LhqModelDataNode } from '../src/api/schemas';
 import { IResourceElement, IRootModelElement } from '../src/api';
 import { CategoryElement } from '../src/model/categoryElement';
 import { ResourceElement } from '../src/model/resourceElement';
-import { FormattingOptions, ImportResourceItem, modelConst, ModelUtils, sanitizeUnsupportedUnicodeChars, serializeJson } from '../src';
+import { FormattingOptions, Generator, ImportResourceItem, modelConst, ModelUtils, sanitizeUnsupportedUnicodeChars, serializeJson } from '../src';
 import { MapToModelOptions } from '../src/model/types';
+import { CodeGeneratorSettingsConvertor } from '../src/settingsConvertor';
+import { RootModelElement } from '../src/model/rootModelElement';
 
 setTimeout(async () => {
     await initGenerator();
@@ -710,6 +712,169 @@ N\u2060O\u2061P\u2062Q\u2063R\u2064S
             await verify('versions', `upgraded_v${oldVersion}-v${root.version}`, modelJson, 'text', 'json');
         });
 
+        it('upgrade migrates code generator settings to latest template version', async function () {
+            const init = await loadGeneratorInitialization();
+            const template = init.templatesMetadata.templates['WpfResxCsharp01'];
+            template.version = 3;
+            template.migrations = [
+                {
+                    version: 3, changes: [
+                        { action: 'map', group: 'ResX', property: 'OutputFolder', values: { 'Resources2': 'Resx' } },
+                        { action: 'remove', group: 'CSharp', property: 'Obsolete' },
+                        { action: 'set', group: 'CSharp', property: 'Namespace', value: 'MyApp' }
+                    ]
+                },
+                {
+                    version: 2, changes: [{ action: 'rename', group: 'CSharp', property: 'ExpressionBodySyntax', to: 'UseExpressionBodySyntax' }]
+                }
+            ];
+
+            try {
+                Generator.initialize(init);
+
+                const file = path.join(folders().data, 'versions', lhqFile_v1);
+                const content = (await safeReadFile(file)).replace('"UseExpressionBodySyntax"', '"ExpressionBodySyntax"');
+                const root = ModelUtils.createRootElement(content);
+                expect(root.codeGenerator!.version).to.be.eq(1);
+                expect(ModelUtils.upgradeRequired(root)).to.be.true;
+
+                const upgradeResult = ModelUtils.upgradeModel(root);
+                expect(upgradeResult.success).to.be.true;
+                expect(upgradeResult.changes).to.deep.equal([
+                    `Model version upgraded from 1 to 2.`,
+                    `Template 'WpfResxCsharp01' settings version set to 1.`,
+                    `Model version upgraded from 2 to 3.`,
+                    `Template 'WpfResxCsharp01' settings (version 2): 'CSharp.ExpressionBodySyntax' renamed to 'CSharp.UseExpressionBodySyntax'.`,
+                    `Template 'WpfResxCsharp01' settings (version 3): 'ResX.OutputFolder' value changed from 'Resources2' to 'Resx'.`,
+                    `Template 'WpfResxCsharp01' settings (version 3): 'CSharp.Namespace' set to 'MyApp'.`,
+                    `Template 'WpfResxCsharp01' settings version upgraded from 1 to 3.`
+                ]);
+
+                const upgraded = upgradeResult.rootModel!;
+                expect(upgraded.codeGenerator!.version).to.be.eq(3);
+                expect(upgraded.codeGenerator!.settings['CSharp']['UseExpressionBodySyntax']).to.be.true;
+                expect(upgraded.codeGenerator!.settings['CSharp']['Namespace']).to.be.eq('MyApp');
+                expect(upgraded.codeGenerator!.settings['ResX']['OutputFolder']).to.be.eq('Resx');
+                expect(ModelUtils.upgradeRequired(upgraded)).to.be.false;
+
+                const model = ModelUtils.rootElementToModel(upgraded);
+                expect(ModelUtils.createRootElement(model).codeGenerator!.version).to.be.eq(3);
+            } finally {
+                await initGenerator();
+            }
+        });
+
+        it('settings migration handles attributes with null value', async function () {
+            const init = await loadGeneratorInitialization();
+            const template = init.templatesMetadata.templates['WpfResxCsharp01'];
+            template.version = 2;
+            template.migrations = [{
+                version: 2, changes: [
+                    { action: 'map', group: 'ResX', property: 'OutputFolder', values: { 'Resources': 'Resx' } },
+                    { action: 'rename', group: 'CSharp', property: 'ExpressionBodySyntax', to: 'UseExpressionBodySyntax' }
+                ]
+            }];
+
+            const convertor = new CodeGeneratorSettingsConvertor(new Generator(init).templateManager);
+            const node: LhqModelDataNode = {
+                name: 'Settings', childs: [
+                    { name: 'CSharp', attrs: { 'ExpressionBodySyntax': null } },
+                    { name: 'ResX', attrs: { 'OutputFolder': null } }
+                ]
+            };
+
+            const changes = convertor.migrateSettingsNode('WpfResxCsharp01', node, 1);
+            expect(changes).to.deep.equal([`Template 'WpfResxCsharp01' settings (version 2): 'CSharp.ExpressionBodySyntax' renamed to 'CSharp.UseExpressionBodySyntax'.`]);
+            expect(node.childs![0].attrs).to.deep.equal({ 'UseExpressionBodySyntax': null });
+            expect(node.childs![1].attrs).to.deep.equal({ 'OutputFolder': null });
+        });
+
+        it('upgrade keeps settings stored with newer template version', async function () {
+            const file = path.join(folders().data, 'versions', 'Strings.lhq');
+            const content = (await safeReadFile(file)).replace('"version": "1"', '"version": "3"');
+
+            const root = ModelUtils.createRootElement(content);
+            expect(root.codeGenerator!.version).to.be.eq(3);
+            expect(ModelUtils.upgradeRequired(root)).to.be.false;
+
+            const upgradeResult = ModelUtils.upgradeModelData(content);
+            expect(upgradeResult.success).to.be.true;
+            expect(upgradeResult.changes).to.deep.equal([]);
+            expect(ModelUtils.createRootElement(upgradeResult.model!).codeGenerator!.version).to.be.eq(3);
+        });
+
+        it('upgrade uses templates of isolated generator', async function () {
+            const init = await loadGeneratorInitialization();
+            init.customTemplates = [{
+                hbsTemplates: { 'MyCsharpTemplate': '' },
+                templatesMetadata: {
+                    settings: {},
+                    templates: {
+                        'MyCsharpTemplate': {
+                            displayName: 'My C# template', description: 'Custom template', settings: ['CSharp'], version: 2,
+                            migrations: [{ version: 2, changes: [{ action: 'set', group: 'CSharp', property: 'Namespace', value: 'MyApp' }] }]
+                        }
+                    }
+                }
+            }];
+
+            const settingsConvertor = new Generator(init).settingsConvertor;
+            expect(() => ModelUtils.createCodeGeneratorElement('MyCsharpTemplate')).to.throw(/Template definition for 'MyCsharpTemplate' not found/);
+            expect(ModelUtils.createCodeGeneratorElement('MyCsharpTemplate', undefined, settingsConvertor).templateId).to.be.eq('MyCsharpTemplate');
+
+            const file = path.join(folders().data, 'versions', 'Strings.lhq');
+            const content = (await safeReadFile(file)).replace('"NetCoreResxCsharp01"', '"MyCsharpTemplate"');
+            const root = new RootModelElement(JSON.parse(tryRemoveBOM(content)) as LhqModel, settingsConvertor);
+            expect(ModelUtils.upgradeRequired(root)).to.be.true;
+
+            const upgradeResult = ModelUtils.upgradeModel(root);
+            expect(upgradeResult.success).to.be.true;
+            expect(upgradeResult.changes).to.deep.equal([
+                `Template 'MyCsharpTemplate' settings (version 2): 'CSharp.Namespace' set to 'MyApp'.`,
+                `Template 'MyCsharpTemplate' settings version upgraded from 1 to 2.`
+            ]);
+            expect(upgradeResult.rootModel!.codeGenerator!.settings['CSharp']['Namespace']).to.be.eq('MyApp');
+        });
+
+        it(`upgrade ${lhqFile_v1} data step by step`, async function () {
+            const file = path.join(folders().data, 'versions', lhqFile_v1);
+            const content = await safeReadFile(file);
+
+            const upgradeResult = ModelUtils.upgradeModelData(content);
+            expect(upgradeResult.success).to.be.true;
+            expect(upgradeResult.changes).to.deep.equal([
+                `Empty categories collection removed from '/'.`,
+                `Model version upgraded from 1 to 2.`,
+                `Template 'WpfResxCsharp01' settings version set to 1.`,
+                `Model version upgraded from 2 to 3.`
+            ]);
+
+            const model = upgradeResult.model!;
+            expect(model.model.version).to.be.eq(modelConst.ModelVersions.model);
+            expect(model).to.not.have.property('categories');
+            expect(ModelUtils.createRootElement(model).codeGenerator!.settings['CSharp']['OutputFolder']).to.be.eq('Resources1');
+
+            const dryRunResult = ModelUtils.upgradeModelData(content, { dryRun: true });
+            expect(dryRunResult.success).to.be.true;
+            expect(dryRunResult.changes).to.deep.equal(upgradeResult.changes);
+            expect(dryRunResult.model).to.be.undefined;
+        });
+
+        it('upgrade model without code generator', async function () {
+            const file = path.join(folders().data, 'versions', lhqFile_v1);
+            const model = JSON.parse(tryRemoveBOM(await safeReadFile(file))) as LhqModel;
+            delete model.metadatas;
+
+            const root = ModelUtils.createRootElement(model);
+            expect(root.codeGenerator).to.be.undefined;
+
+            const upgradeResult = ModelUtils.upgradeModel(root);
+            expect(upgradeResult.success).to.be.true;
+            expect(upgradeResult.changes).to.deep.equal([`Model version upgraded from 1 to 2.`, `Model version upgraded from 2 to 3.`]);
+            expect(upgradeResult.rootModel!.version).to.be.eq(modelConst.ModelVersions.model);
+            expect(model.model.version).to.be.eq(1);
+        });
+
         it('import model rows 01', async function () {
             const model1 = ModelUtils.createRootElement();
             model1.name = 'model1';
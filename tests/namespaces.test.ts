@@ -12,17 +12,19 @@ import { folders } from './testUtils.js';
 import { LhqModelLineEndings } from '../src/api/schemas.js';
 import { GeneratedFile } from '../src/api/types.js';
 import { findNamespaceForModel } from '../src/namespaceUtils.js';
+import { MsBuildPropertyEvaluator } from '../src/msbuildEvaluator.js';
+import { updateCsProjectItems } from '../src/csProjectUtils.js';
 
 
 setTimeout(async () => {
 
-    const csProjectFiles = await glob('*.csproj', { cwd: folders().csproj, nodir: true });
+    const csProjectFiles = await glob('*.{csproj,vbproj,fsproj}', { cwd: folders().csproj, nodir: true });
     //const csProjectFiles = ['project10.csproj'];
 
     describe('Retrieving namespace information', () => {
 
         csProjectFiles.forEach((csProjectFile) => {
-            const ident = csProjectFile.replace('.csproj', '');
+            const ident = path.basename(csProjectFile, path.extname(csProjectFile));
             describe(`Namespaces ${ident}`, async function () {
                 it(`retrieve namespace`, async function () {
                     // @ts-ignore
@@ -57,6 +59,205 @@ setTimeout(async () => {
             });
         });
 
+        describe('Sub folders', function () {
+            async function getSubFolderNamespace(csProjectName: string, lhqFileName: string): Promise<CSharpNamespaceInfo> {
+                const csProjFile = await fileUtils.readFileInfo(csProjectName, { rootFolder: folders().csproj, fileMustExist: true, loadContent: true });
+                const lhqFile = await fileUtils.readFileInfo(lhqFileName, { rootFolder: csProjFile.dirname });
+
+                const namespaceInfo = findNamespaceForModel({ lhqModelFile: lhqFile, csProjectFiles: [csProjFile] });
+                expect(namespaceInfo).to.not.be.undefined;
+                return namespaceInfo!;
+            }
+
+            it('appends sub folders to root namespace', async function () {
+                const namespaceInfo = await getSubFolderNamespace('project01.csproj', 'Localization/Common/Strings.lhq');
+
+                expect(namespaceInfo.namespace).to.equal('RootNamespace01.Localization.Common');
+                expect(namespaceInfo.namespaceSource).to.equal('rootNamespace');
+            });
+
+            it('sanitizes sub folder names', async function () {
+                const namespaceInfo = await getSubFolderNamespace('project01.csproj', 'My Folder/1st.Level/Strings.lhq');
+
+                expect(namespaceInfo.namespace).to.equal('RootNamespace01.My_Folder._1st.Level');
+            });
+
+            it('does not append sub folders to custom tool namespace', async function () {
+                const namespaceInfo = await getSubFolderNamespace('project17.csproj', 'Localization/Strings.lhq');
+
+                expect(namespaceInfo.namespace).to.equal('LocalizationNamespace17');
+                expect(namespaceInfo.namespaceSource).to.equal('customToolNamespace');
+            });
+
+            it('does not append sub folders for VB.NET project', async function () {
+                const namespaceInfo = await getSubFolderNamespace('project16.vbproj', 'Localization/Common/Strings.lhq');
+
+                expect(namespaceInfo.namespace).to.equal('RootNamespace16');
+                expect(namespaceInfo.namespaceSource).to.equal('rootNamespace');
+            });
+
+            it('does not match items of files with same name in other folder', async function () {
+                const namespaceInfo = await getSubFolderNamespace('project09.csproj', 'Localization/Strings.lhq');
+
+                expect(namespaceInfo.namespace).to.equal('ConsoleApp2.Localization');
+                expect(namespaceInfo.namespaceSource).to.equal('rootNamespace');
+                expect(namespaceInfo.referencedLhqFile).to.be.false;
+                expect(namespaceInfo.referencedT4File).to.be.false;
+            });
+        });
+
+        describe('MSBuild properties', function () {
+            async function getMsBuildNamespace(withPropsFiles: boolean): Promise<CSharpNamespaceInfo> {
+                const csProjectName = path.join(folders().data, 'msbuild', 'src', 'App.Web', 'App.Web.csproj');
+                const csProjFile = await fileUtils.readFileInfo(csProjectName, { fileMustExist: true, loadContent: true });
+                const lhqFile = await fileUtils.readFileInfo('Strings.lhq', { rootFolder: csProjFile.dirname });
+                const directoryBuildPropsFiles = withPropsFiles ? await fileUtils.findDirectoryBuildPropsFiles(csProjFile.dirname) : [];
+
+                const namespaceInfo = findNamespaceForModel({ lhqModelFile: lhqFile, csProjectFiles: [csProjFile], directoryBuildPropsFiles });
+                expect(namespaceInfo).to.not.be.undefined;
+                return namespaceInfo!;
+            }
+
+            it('evaluates root namespace from Directory.Build.props files', async function () {
+                const namespaceInfo = await getMsBuildNamespace(true);
+
+                expect(namespaceInfo.namespace).to.equal('Contoso.Shop.App_Web');
+                expect(namespaceInfo.namespaceDynamicExpression).to.be.false;
+            });
+
+            it('uses props files from parent directories only when imported', async function () {
+                const csProjectName = path.join(folders().data, 'msbuild', 'src', 'App.Web', 'App.Web.csproj');
+                const csProjFile = await fileUtils.readFileInfo(csProjectName, { fileMustExist: true, loadContent: true });
+                const lhqFile = await fileUtils.readFileInfo('Strings.lhq', { rootFolder: csProjFile.dirname });
+                const propsFiles = await fileUtils.findDirectoryBuildPropsFiles(csProjFile.dirname);
+
+                expect(propsFiles.map(x => path.relative(folders().data, x.full).split(path.sep).join('/')))
+                    .to.deep.equal(['msbuild/Directory.Build.props', 'msbuild/src/Directory.Build.props']);
+
+                // nearest props file without import of parent props file
+                const nearest = { ...propsFiles[1], content: (propsFiles[1].content as string).replace(/^\s*<Import .*$/m, '') };
+                const directoryBuildPropsFiles = [propsFiles[0], nearest];
+                const namespaceInfo = findNamespaceForModel({ lhqModelFile: lhqFile, csProjectFiles: [csProjFile], directoryBuildPropsFiles });
+
+                expect(namespaceInfo?.namespace).to.equal('App.Web');
+                expect(namespaceInfo?.namespaceDynamicExpression).to.be.true;
+            });
+
+            it('falls back to project file name when properties are not resolved', async function () {
+                const namespaceInfo = await getMsBuildNamespace(false);
+
+                expect(namespaceInfo.namespace).to.equal('App.Web');
+                expect(namespaceInfo.namespaceDynamicExpression).to.be.true;
+            });
+
+            it('expands well-known properties and property functions', function () {
+                const projectFile = {
+                    exist: true, full: '/dev/My App/My App.csproj', dirname: '/dev/My App', basename: 'My App.csproj', ext: '.csproj', extless: 'My App'
+                } as FileInfo;
+
+                const evaluator = new MsBuildPropertyEvaluator(projectFile);
+                evaluator.setProperty('Company', ' Contoso ');
+
+                const result = evaluator.expand('$(company.Trim()).$(MSBuildProjectName.Replace(" ", "_").ToLower()).$(MSBuildThisFileExtension)');
+                expect(result.value).to.equal('Contoso.my_app..csproj');
+                expect(result.unresolvedProperties).to.be.empty;
+
+                expect(evaluator.expand('$(MSBuildThisFileDirectory)').value).to.equal('/dev/My App/');
+            });
+
+            it('reports unresolved properties and unsupported expressions', function () {
+                const projectFile = {
+                    exist: true, full: 'c:\\dev\\App.csproj', dirname: 'c:\\dev', basename: 'App.csproj', ext: '.csproj', extless: 'App'
+                } as FileInfo;
+
+                const evaluator = new MsBuildPropertyEvaluator(projectFile);
+                const result = evaluator.expand('$(Unknown).$(MSBuildProjectName.Substring(1)).$([System.DateTime]::Now.Year)');
+
+                expect(result.value).to.equal('..');
+                expect(result.unresolvedProperties).to.deep.equal(['Unknown', '$(MSBuildProjectName.Substring(1))', '$([System.DateTime]::Now.Year)']);
+                expect(evaluator.expand('$(MSBuildThisFileDirectory)').value).to.equal('c:\\dev\\');
+            });
+        });
+
+        describe('C# project items', function () {
+            const generatedFiles = ['Resources/Strings.gen.cs', 'Resources/Strings.en.resx', 'Resources/Strings.sk.resx'];
+
+            async function readCsProject(templateId: string): Promise<string> {
+                return await safeReadFile(path.join(folders().templates, templateId, `${templateId}.csproj`));
+            }
+
+            it('does not update SDK-style project', async function () {
+                const content = await readCsProject('NetCoreResxCsharp01');
+                const result = updateCsProjectItems(content, { generatedFiles: ['Resources/Strings.new.resx'] });
+
+                expect(result.sdkStyle).to.be.true;
+                expect(result.content).to.equal(content);
+                expect(result.addedItems).to.be.empty;
+            });
+
+            it('does not add existing items', async function () {
+                const content = await readCsProject('NetFwResxCsharp01');
+                const result = updateCsProjectItems(content, { generatedFiles });
+
+                expect(result.sdkStyle).to.be.false;
+                expect(result.addedItems).to.be.empty;
+                expect(result.content).to.equal(content);
+            });
+
+            it('adds missing items with project formatting', async function () {
+                const content = (await readCsProject('NetFwResxCsharp01')).replace(/^.*Resources\\Strings\..*\r\n/gm, '');
+                const result = updateCsProjectItems(content, { generatedFiles, lhqModelFile: 'Strings.lhq' });
+
+                expect(result.addedItems).to.deep.equal(['Resources\\Strings.en.resx', 'Resources\\Strings.gen.cs', 'Resources\\Strings.sk.resx']);
+                expect(result.content).to.contain(
+                    '        <Compile Include="Properties\\AssemblyInfo.cs" />\r\n' +
+                    '        <Compile Include="Resources\\Strings.gen.cs" />\r\n' +
+                    '    </ItemGroup>');
+                expect(result.content).to.contain(
+                    '        <EmbeddedResource Include="Resources\\Strings.en.resx" />\r\n' +
+                    '        <EmbeddedResource Include="Resources\\Strings.sk.resx" />\r\n' +
+                    '    </ItemGroup>');
+            });
+
+            it('adds items depending on LHQ model file in same folder', async function () {
+                const content = await readCsProject('NetFwResxCsharp01');
+                const result = updateCsProjectItems(content, { generatedFiles: ['Strings.gen.cs', 'Strings.en.resx'], lhqModelFile: 'Strings.lhq' });
+
+                expect(result.content).to.contain(
+                    '        <Compile Include="Strings.gen.cs">\r\n' +
+                    '            <AutoGen>True</AutoGen>\r\n' +
+                    '            <DesignTime>True</DesignTime>\r\n' +
+                    '            <DependentUpon>Strings.lhq</DependentUpon>\r\n' +
+                    '        </Compile>\r\n');
+                expect(result.content).to.contain(
+                    '        <EmbeddedResource Include="Strings.en.resx">\r\n' +
+                    '            <DependentUpon>Strings.lhq</DependentUpon>\r\n' +
+                    '        </EmbeddedResource>\r\n');
+            });
+
+            it('removes items of files not generated anymore', async function () {
+                const content = await readCsProject('NetFwResxCsharp01');
+                const result = updateCsProjectItems(content, { generatedFiles, removedFiles: ['Resources/Strings.de.resx', 'Resources/Strings.sk.resx'] });
+
+                // 'Strings.sk.resx' is still generated
+                expect(result.removedItems).to.be.empty;
+
+                const result2 = updateCsProjectItems(content, { generatedFiles: generatedFiles.slice(0, 2), removedFiles: ['Resources/Strings.sk.resx'] });
+                expect(result2.removedItems).to.deep.equal(['Resources\\Strings.sk.resx']);
+                expect(result2.content).to.equal(content.replace('        <EmbeddedResource Include="Resources\\Strings.sk.resx" />\r\n', ''));
+            });
+
+            it('does not report items which could not be added', function () {
+                // no item group and closing project element is not on its own line
+                const content = '<Project ToolsVersion="15.0" xmlns="http://schemas.microsoft.com/developer/msbuild/2003"><PropertyGroup /></Project>';
+                const result = updateCsProjectItems(content, { generatedFiles });
+
+                expect(result.sdkStyle).to.be.false;
+                expect(result.addedItems).to.be.empty;
+                expect(result.content).to.equal(content);
+            });
+        });
+
         // describe('Manual tests', function () {
         //     it('Manual test 1', function () {
 
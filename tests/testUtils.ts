@@ -174,34 +174,39 @@ export const formatRelativePath = (p: string): string => {
 };
 
 
-export async function initGenerator() {
-    try {
-        const hbsTemplatesDir = folders().hbs;
+export async function loadGeneratorInitialization(): Promise<GeneratorInitialization> {
+    const hbsTemplatesDir = folders().hbs;
+
+    const metadataFile = path.join(hbsTemplatesDir, 'metadata.json');
+    const metadataContent = await fse.readFile(metadataFile, { encoding: 'utf-8' });
+    const result = validateTemplateMetadata(metadataContent);
+    if (!result.success) {
+        throw new Error(`Validation of ${metadataFile} failed: ${result.error}`);
+    }
 
-        const metadataFile = path.join(hbsTemplatesDir, 'metadata.json');
-        const metadataContent = await fse.readFile(metadataFile, { encoding: 'utf-8' });
-        const result = validateTemplateMetadata(metadataContent);
-        if (!result.success) {
-            throw new Error(`Validation of ${metadataFile} failed: ${result.error}`);
-        }
+    const generatorInit: GeneratorInitialization = {
+        hbsTemplates: {},
+        templatesMetadata: result.metadata!,
+        hostEnvironment: new HostEnvironmentCli()
+    };
 
-        const generatorInit: GeneratorInitialization = {
-            hbsTemplates: {},
-            templatesMetadata: result.metadata!,
-            hostEnvironment: new HostEnvironmentCli()
-        };
 
+    const hbsFiles = await glob('*.hbs', { cwd: hbsTemplatesDir, nodir: true });
 
-        const hbsFiles = await glob('*.hbs', { cwd: hbsTemplatesDir, nodir: true });
+    const templateLoaders = hbsFiles.map(async (hbsFile) => {
+        const templateId = path.basename(hbsFile, path.extname(hbsFile));
+        const fullFilePath = path.join(hbsTemplatesDir, hbsFile);
+        generatorInit.hbsTemplates[templateId] = await safeReadFile(fullFilePath);
+    });
 
-        const templateLoaders = hbsFiles.map(async (hbsFile) => {
-            const templateId = path.basename(hbsFile, path.extname(hbsFile));
-            const fullFilePath = path.join(hbsTemplatesDir, hbsFile);
-            generatorInit.hbsTemplates[templateId] = await safeReadFile(fullFilePath);
-        });
+    await Promise.all(templateLoaders);
 
-        await Promise.all(templateLoaders);
+    return generatorInit;
+}
 
+export async function initGenerator() {
+    try {
+        const generatorInit = await loadGeneratorInitialization();
         Generator.initialize(generatorInit);
     } catch (error) {
         console.error('Error initializing generator:', error);
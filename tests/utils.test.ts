@@ -17,6 +17,9 @@ import {
     removeNewLines,
     removeProperties,
     getIndexForSortedAdd,
+    createUnifiedDiff,
+    changeCase,
+    toIdentifier,
     //formatJson,
     //copyObject
 } from '../src/utils';
@@ -463,6 +466,88 @@ describe('Utils Functions', () => {
         });
     });
 
+    describe('createUnifiedDiff', () => {
+        it('should return empty string for same lines', () => {
+            expect(createUnifiedDiff('a\r\nb', 'a\nb', 'old', 'new')).to.equal('');
+        });
+
+        it('should create diff with changed, added and removed lines', () => {
+            const oldText = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'].join('\n');
+            const newText = ['1', '2x', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12', '13'].join('\n');
+            const diff = createUnifiedDiff(oldText, newText, 'a.txt', 'b.txt');
+
+            expect(diff.split('\n')).to.deep.equal([
+                '--- a.txt',
+                '+++ b.txt',
+                '@@ -1,5 +1,5 @@',
+                ' 1',
+                '-2',
+                '+2x',
+                ' 3',
+                ' 4',
+                ' 5',
+                '@@ -10,3 +10,4 @@',
+                ' 10',
+                ' 11',
+                ' 12',
+                '+13'
+            ]);
+        });
+
+        it('should merge close changes into one hunk', () => {
+            const diff = createUnifiedDiff('a\nb\nc\nd', 'b\nc\nx', 'a.txt', 'b.txt');
+
+            expect(diff.split('\n')).to.deep.equal([
+                '--- a.txt',
+                '+++ b.txt',
+                '@@ -1,4 +1,3 @@',
+                '-a',
+                ' b',
+                ' c',
+                '-d',
+                '+x'
+            ]);
+        });
+
+        it('should use zero start line for empty side', () => {
+            const diff = createUnifiedDiff('', 'a', 'a.txt', 'b.txt');
+            expect(diff.split('\n')).to.deep.equal(['--- a.txt', '+++ b.txt', '@@ -0,0 +1,1 @@', '+a']);
+        });
+    });
+
+    describe('changeCase', () => {
+        it('should convert names into target case', () => {
+            expect(changeCase('Old_Kia', 'camel')).to.equal('oldKia');
+            expect(changeCase('Old_Kia', 'pascal')).to.equal('OldKia');
+            expect(changeCase('Old_Kia', 'snake')).to.equal('old_kia');
+            expect(changeCase('Old_Kia', 'kebab')).to.equal('old-kia');
+            expect(changeCase('Old_Kia', 'screaming')).to.equal('OLD_KIA');
+            expect(changeCase('Old_Kia', 'original')).to.equal('Old_Kia');
+        });
+
+        it('should split words on case changes and keep digits with preceding word', () => {
+            expect(changeCase('ToyotaEV2Model', 'snake')).to.equal('toyota_ev2_model');
+            expect(changeCase('ToyotaEV2Model', 'camel')).to.equal('toyotaEv2Model');
+            expect(changeCase('welcomeMessage', 'pascal')).to.equal('WelcomeMessage');
+            expect(changeCase('Value_2', 'screaming')).to.equal('VALUE_2');
+            expect(changeCase('', 'camel')).to.equal('');
+        });
+    });
+
+    describe('toIdentifier', () => {
+        it('should replace invalid characters and prefix leading digit', () => {
+            expect(toIdentifier('Old_Kia')).to.equal('Old_Kia');
+            expect(toIdentifier('1st Item')).to.equal('_1st_Item');
+            expect(toIdentifier('my-key.name')).to.equal('my_key_name');
+            expect(toIdentifier('')).to.equal('_');
+        });
+
+        it('should convert case before sanitization', () => {
+            expect(toIdentifier('Old_Kia', 'kebab')).to.equal('old_kia');
+            expect(toIdentifier('Item2Name', 'camel')).to.equal('item2Name');
+        });
+    });
+
     // describe('formatJson', () => {
     //     it('should format JSON string with specified line endings', () => {
     //         const input = { a: 1, b: 2, c: 3 };
@@ -0,0 +1,129 @@
+import path from 'node:path';
+import { expect } from 'chai';
+
+import { folders, initGenerator, safeReadFile } from './testUtils';
+import { validateLhqModel } from '../src/generatorUtils';
+import { LhqModel } from '../src/api/schemas';
+import { AppError, Generator, ModelUtils } from '../src';
+
+setTimeout(async () => {
+    await initGenerator();
+
+    const lhqFileName = path.join(folders().templates, 'NetCoreResxCsharp01', 'Strings.lhq');
+    const content = await safeReadFile(lhqFileName);
+
+    const findLine = (text: string, search: string): number => text.split('\n').findIndex(x => x.includes(search)) + 1;
+
+    describe('LHQ model validation', () => {
+        it('valid model has no issues', () => {
+            const result = validateLhqModel(content);
+            expect(result.success).to.be.true;
+            expect(result.issues).to.be.empty;
+        });
+
+        it('invalid value type is reported with path, code and position', () => {
+            const json = content.replace('"value": "Škoda SK"', '"value": 123');
+            const result = validateLhqModel(json);
+
+            expect(result.success).to.be.false;
+            expect(result.error).to.not.be.empty;
+            expect(result.issues).to.have.length(1);
+
+            const issue = result.issues[0];
+            expect(issue.path).to.equal('categories.Cars.categories.Diesel.resources.Skoda.values.sk.value');
+            expect(issue.code).to.equal('schema.invalid_type');
+            expect(issue.severity).to.equal('error');
+            expect(issue.line).to.equal(findLine(json, '"value": 123'));
+            expect(issue.column).to.equal(json.split('\n')[issue.line! - 1].indexOf('"value"') + 1);
+        });
+
+        it('invalid state value is reported on the property', () => {
+            const json = content.replace('"state": "Edited",', '"state": "Unknown",');
+            const result = validateLhqModel(json);
+
+            const issue = result.issues.find(x => x.code === 'schema.invalid_union');
+            expect(issue).to.not.be.undefined;
+            expect(issue!.path).to.equal('categories.Cars.categories.Diesel.resources.Mercedes.state');
+            expect(issue!.line).to.equal(findLine(json, '"Unknown"'));
+        });
+
+        it('invalid JSON is reported with position', () => {
+            const json = content.replace('"state": "Edited",', '"state": "Edited",,');
+            const result = validateLhqModel(json);
+
+            expect(result.success).to.be.false;
+            expect(result.issues).to.have.length(1);
+            expect(result.issues[0].code).to.equal('json.parseError');
+            expect(result.issues[0].line).to.equal(findLine(json, '"Edited",,'));
+        });
+
+        it('model object has issues without position', () => {
+            const model = JSON.parse(content) as LhqModel;
+            (model.model as unknown as Record<string, unknown>).name = 42;
+            const result = validateLhqModel(model);
+
+            expect(result.issues.map(x => x.path)).to.deep.equal(['model.name']);
+            expect(result.issues[0].line).to.be.undefined;
+        });
+    });
+
+    describe('LHQ model semantic validation', () => {
+        const loadModel = (): LhqModel => JSON.parse(content) as LhqModel;
+        const codes = (model: LhqModel): string[] => ModelUtils.validateModelSemantics(model).map(x => x.code);
+
+        it('valid model has no semantic issues', () => {
+            expect(ModelUtils.validateModelSemantics(loadModel(), content)).to.be.empty;
+        });
+
+        it('primary language must be declared', () => {
+            const model = loadModel();
+            model.model.primaryLanguage = 'de';
+            expect(codes(model)).to.deep.equal(['model.primaryLanguageNotDeclared']);
+        });
+
+        it('undeclared language in resource value is reported as warning', () => {
+            const json = content.replace(/"sk": \{(\r?\n\s*)"value": "Škoda SK"/, '"de": {$1"value": "Škoda DE"');
+            const issues = ModelUtils.validateModelSemantics(JSON.parse(json) as LhqModel, json);
+
+            expect(issues).to.have.length(1);
+            expect(issues[0].code).to.equal('model.undeclaredLanguage');
+            expect(issues[0].severity).to.equal('warning');
+            expect(issues[0].path).to.equal('categories.Cars.categories.Diesel.resources.Skoda.values.de');
+            expect(issues[0].line).to.equal(findLine(json, '"de": {'));
+        });
+
+        it('invalid element names are reported', () => {
+            const model = loadModel();
+            model.categories!['1Cars'] = model.categories!['Cars'];
+            model.resources = { 'Bad Name': { state: 'New' } };
+            const issues = ModelUtils.validateModelSemantics(model);
+
+            expect(issues.filter(x => x.code === 'model.invalidName').map(x => x.path)).to.deep.equal(['categories.1Cars', 'resources.Bad Name']);
+        });
+
+        it('duplicate parameter order is reported as warning', () => {
+            const model = loadModel();
+            model.resources = { Greeting: { state: 'New', parameters: { first: { order: 0 }, second: { order: 0 } } } };
+            const issues = ModelUtils.validateModelSemantics(model);
+
+            expect(issues.map(x => x.code)).to.deep.equal(['model.duplicateParameterOrder']);
+            // templates handle it (parameters with same order keep declaration order), so generation is not blocked
+            expect(issues[0].severity).to.equal('warning');
+        });
+
+        it('categories must be enabled in model options', () => {
+            const model = loadModel();
+            model.model.options.categories = false;
+            expect(codes(model)).to.deep.equal(['model.categoriesDisabled']);
+        });
+
+        it('generate fails on semantic errors', async () => {
+            const model = loadModel();
+            model.model.primaryLanguage = 'de';
+
+            expect(() => new Generator().generate(lhqFileName, model, {})).to.throw(AppError, /Primary language 'de' is not declared/);
+        });
+    });
+
+    run();
+}, 500);
\ No newline at end of file